@@ -13,7 +13,7 @@
  * TODO: Destroy less frequently used items in recycle pool, this will help in case of too many types.
  * TODO: Add animated scroll to web scrollviewer
  * TODO: Animate list view transition, including add/remove
- * TODO: Implement sticky headers
+ * DONE: Implement sticky headers
  * TODO: Make viewability callbacks configurable
  * TODO: Observe size changes on web to optimize for reflowability
  * TODO: Solve //TSI
@@ -22,15 +22,24 @@ import debounce from "lodash-es/debounce";
 import * as PropTypes from "prop-types";
 import * as React from "react";
 import { ObjectUtil, Default } from "ts-object-utils";
+import AsyncContextProvider from "./dependencies/AsyncContextProvider";
 import ContextProvider from "./dependencies/ContextProvider";
+import DataChangeSet from "./dependencies/DataChangeSet";
 import DataProvider from "./dependencies/DataProvider";
+import DerivedDataProvider from "./dependencies/DerivedDataProvider";
+import GroupedDataProvider from "./dependencies/GroupedDataProvider";
 import LayoutProvider, { Dimension } from "./dependencies/LayoutProvider";
+import SectionDataProvider from "./dependencies/SectionDataProvider";
 import CustomError from "./exceptions/CustomError";
 import RecyclerListViewExceptions from "./exceptions/RecyclerListViewExceptions";
-import LayoutManager, { Point, Rect } from "./layoutmanager/LayoutManager";
+import BaseLayoutManager, { LayoutManagerFactory, LayoutSpacing, Point, Rect } from "./layoutmanager/BaseLayoutManager";
+import LayoutCache, { LayoutCacheData } from "./layoutmanager/LayoutCache";
+import LayoutManager from "./layoutmanager/LayoutManager";
 import Messages from "./messages/Messages";
 import BaseScrollComponent from "./scrollcomponent/BaseScrollComponent";
 import BaseScrollView, { ScrollEvent } from "./scrollcomponent/BaseScrollView";
+import StickyHeader from "./stickyheader/StickyHeader";
+import SelectionModel, { SelectionMode } from "./SelectionModel";
 import { TOnItemStatusChanged } from "./ViewabilityTracker";
 import VirtualRenderer, { RenderStack, RenderStackItem, RenderStackParams } from "./VirtualRenderer";
 import ItemAnimator, { BaseItemAnimator } from "./ItemAnimator";
@@ -58,11 +67,14 @@ const refreshRequestDebouncer = debounce((executable: () => void) => {
     executable();
 });
 
+//Incremental loading state when onEndReached returns a promise, passed to renderFooter
+export type EndReachedStatus = "idle" | "loading" | "error" | "end";
+
 /***
  * This is the main component, please refer to samples to understand how to use.
  * For advanced usage check out prop descriptions below.
- * You also get common methods such as: scrollToIndex, scrollToItem, scrollToTop, scrollToEnd, scrollToOffset, getCurrentScrollOffset,
- * findApproxFirstVisibleIndex.
+ * You also get common methods such as: scrollToIndex, scrollToItem, scrollToSection, scrollToSourceIndex, scrollToTop, scrollToEnd, scrollToOffset,
+ * getCurrentScrollOffset, findApproxFirstVisibleIndex.
  * You'll need a ref to Recycler in order to call these
  * Needs to have bounded size in all cases other than window scrolling (web).
  *
@@ -78,15 +90,25 @@ const refreshRequestDebouncer = debounce((executable: () => void) => {
 export interface RecyclerListViewProps {
     layoutProvider: LayoutProvider;
     dataProvider: DataProvider;
-    rowRenderer: (type: string | number, data: any, index: number) => JSX.Element | JSX.Element[] | null;
-    contextProvider?: ContextProvider;
+    rowRenderer: (type: string | number, data: any, index: number, extendedState?: object, isSelected?: boolean) => JSX.Element | JSX.Element[] | null;
+    rowRendererUsesIndex?: boolean;
+    contextProvider?: ContextProvider | AsyncContextProvider;
     renderAheadOffset?: number;
     isHorizontal?: boolean;
     onScroll?: (rawEvent: ScrollEvent, offsetX: number, offsetY: number) => void;
-    onEndReached?: () => void;
+    onEndReached?: () => void | Promise<boolean | void>;
     onEndReachedThreshold?: number;
+    onStartReached?: () => void;
+    onStartReachedThreshold?: number;
     onVisibleIndexesChanged?: TOnItemStatusChanged;
-    renderFooter?: () => JSX.Element | JSX.Element[] | null;
+    onVisibleSourceIndexesChanged?: TOnItemStatusChanged;
+    renderFooter?: (status: EndReachedStatus, retry: () => void, error?: any) => JSX.Element | JSX.Element[] | null;
+    renderHeader?: () => JSX.Element | JSX.Element[] | null;
+    renderEmpty?: () => JSX.Element | JSX.Element[] | null;
+    renderLoading?: () => JSX.Element | JSX.Element[] | null;
+    renderError?: (error: any) => JSX.Element | JSX.Element[] | null;
+    isLoading?: boolean;
+    error?: any;
     externalScrollView?: BaseScrollView;
     initialOffset?: number;
     initialRenderIndex?: number;
@@ -96,8 +118,19 @@ export interface RecyclerListViewProps {
     useWindowScroll?: boolean;
     disableRecycling?: boolean;
     forceNonDeterministicRendering?: boolean;
+    useEstimatedSizes?: boolean;
     extendedState?: object;
     itemAnimator?: ItemAnimator;
+    layoutManagerFactory?: LayoutManagerFactory;
+    stickyHeaderIndices?: number[];
+    isRTL?: boolean;
+    anchorToEnd?: boolean;
+    layoutSpacing?: LayoutSpacing;
+    selectionMode?: SelectionMode;
+    onSelectionChanged?: (selectedIds: string[]) => void;
+    isTwoDimensional?: boolean;
+    horizontalRenderAheadOffset?: number;
+    verticalRenderAheadOffset?: number;
 }
 export interface RecyclerListViewState {
     renderStack: RenderStack;
@@ -105,23 +138,45 @@ export interface RecyclerListViewState {
 
 export default class RecyclerListView extends React.Component<RecyclerListViewProps, RecyclerListViewState> {
     public static defaultProps = {
+        anchorToEnd: false,
         canChangeSize: false,
         disableRecycling: false,
         initialOffset: 0,
         initialRenderIndex: 0,
         isHorizontal: false,
+        isRTL: false,
+        isTwoDimensional: false,
+        selectionMode: "multiple",
         onEndReachedThreshold: 0,
+        onStartReachedThreshold: 0,
         renderAheadOffset: IS_WEB ? 1000 : 250,
     };
 
     public static propTypes = {};
 
     private _onEndReachedCalled = false;
+    private _onStartReachedCalled = false;
+
+    //End state is kept till data provider changes from the one which was current when it was reported
+    private _endReachedStatus: EndReachedStatus = "idle";
+    private _endReachedError: any = null;
+    private _endReachedDataProvider: DataProvider | null = null;
+
+    //Provider being applied in componentWillReceiveProps, trackers already report its indexes while props still hold the old one
+    private _incomingDataProvider: DataProvider | null = null;
 
     private _virtualRenderer: VirtualRenderer;
+    private _selection: SelectionModel;
 
     private _initComplete = false;
+    private _isContextPending = false;
+    private _isUnmounted = false;
     private _relayoutReqIndex: number = -1;
+
+    //Measured sizes waiting for the next frame in estimated sizes mode
+    private _pendingSizeCorrections: { [index: number]: Dimension } = {};
+    private _sizeCorrectionFrame: number | null = null;
+    private _isCompensatingScroll = false;
     private _params: RenderStackParams = {
         initialOffset: 0,
         initialRenderIndex: 0,
@@ -131,10 +186,19 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
     };
     private _layout: Dimension = { height: 0, width: 0 };
     private _pendingScrollToOffset: Point | null = null;
+    private _isPendingScrollAnimated: boolean = false;
+
+    //Only scrollToIndex gives a cross axis offset, other deferred scrolls keep the current one in two dimensional mode
+    private _hasPendingCrossOffset: boolean = false;
     private _tempDim: Dimension = { height: 0, width: 0 };
     private _initialOffset = 0;
-    private _cachedLayouts?: Rect[];
+    private _layoutCache: LayoutCacheData | null = null;
+
+    //Measured size of the header along the main axis. Offsets given to virtual renderer are relative to the first item, scroll offsets include header.
+    private _headerSize: number = 0;
     private _scrollComponent: BaseScrollComponent | null = null;
+    private _stickyHeader: StickyHeader | null = null;
+    private _stickyHeaderItemAnimator: ItemAnimator = new BaseItemAnimator();
 
     //#if [REACT-NATIVE]
     private _defaultItemAnimator: ItemAnimator = new DefaultNativeItemAnimator();
@@ -151,10 +215,22 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         this.scrollToOffset = this.scrollToOffset.bind(this);
         this._renderStackWhenReady = this._renderStackWhenReady.bind(this);
         this._onViewContainerSizeChange = this._onViewContainerSizeChange.bind(this);
+        this._getLayoutForIndex = this._getLayoutForIndex.bind(this);
+        this._renderStickyHeader = this._renderStickyHeader.bind(this);
+        this._onHeaderSizeChanged = this._onHeaderSizeChanged.bind(this);
+        this._applySizeCorrections = this._applySizeCorrections.bind(this);
+        this._onEngagedIndexesChanged = this._onEngagedIndexesChanged.bind(this);
+        this._renderFooter = this._renderFooter.bind(this);
+        this._retryEndReached = this._retryEndReached.bind(this);
+        this._onVisibleIndexesChanged = this._onVisibleIndexesChanged.bind(this);
 
         this._virtualRenderer = new VirtualRenderer(this._renderStackWhenReady, (offset) => {
             this._pendingScrollToOffset = offset;
+            this._hasPendingCrossOffset = false;
         }, !props.disableRecycling);
+        this._virtualRenderer.attachEngagedItemsListener(this._onEngagedIndexesChanged);
+
+        this._selection = new SelectionModel(props.selectionMode);
 
         this.state = {
             renderStack: {},
@@ -162,43 +238,77 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
     }
 
     public componentWillReceiveProps(newProps: RecyclerListViewProps): void {
+        if (this._endReachedStatus === "end" && newProps.dataProvider !== this._endReachedDataProvider) {
+            this._endReachedStatus = "idle";
+            this._endReachedDataProvider = null;
+            this._onEndReachedCalled = false;
+        }
         this._assertDependencyPresence(newProps);
+        if (newProps.selectionMode && newProps.selectionMode !== this.props.selectionMode && this._selection.setMode(newProps.selectionMode)) {
+            this._notifySelectionChange(newProps);
+        }
+        this._incomingDataProvider = newProps.dataProvider;
         this._checkAndChangeLayouts(newProps);
-        if (!this.props.onVisibleIndexesChanged) {
+        this._incomingDataProvider = null;
+        if (!newProps.onVisibleIndexesChanged && !newProps.onVisibleSourceIndexesChanged) {
             this._virtualRenderer.removeVisibleItemsListener();
         } else {
-            this._virtualRenderer.attachVisibleItemsListener(this.props.onVisibleIndexesChanged);
+            this._virtualRenderer.attachVisibleItemsListener(this._onVisibleIndexesChanged);
         }
     }
 
     public componentDidUpdate(): void {
         if (this._pendingScrollToOffset) {
             const offset = this._pendingScrollToOffset;
+            const animate = this._isPendingScrollAnimated;
+            const hasCrossOffset = this._hasPendingCrossOffset;
             this._pendingScrollToOffset = null;
-            if (this.props.isHorizontal) {
-                offset.y = 0;
+            this._isPendingScrollAnimated = false;
+            this._hasPendingCrossOffset = false;
+            if (!this.props.isTwoDimensional || !hasCrossOffset) {
+                const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
+                const crossOffset = this.props.isTwoDimensional && viewabilityTracker ? viewabilityTracker.getLastCrossOffset() : 0;
+                if (this.props.isHorizontal) {
+                    offset.y = crossOffset;
+                } else {
+                    offset.x = crossOffset;
+                }
+            }
+            if (this._isCompensatingScroll) {
+                //Content has just moved, scrolling in the same frame keeps it visually in place
+                this._isCompensatingScroll = false;
+                this._scrollToItemOffset(offset, false);
             } else {
-                offset.x = 0;
+                setTimeout(() => {
+                    this._scrollToItemOffset(offset, animate);
+                }, 0);
             }
-            setTimeout(() => {
-                this.scrollToOffset(offset.x, offset.y, false);
-            }, 0);
         }
         this._processOnEndReached();
+        this._processOnStartReached();
         this._checkAndChangeLayouts(this.props);
+        if (this._stickyHeader) {
+            this._stickyHeader.onScroll(this._getItemOffset());
+        }
     }
 
     public componentWillUnmount(): void {
-        if (this.props.contextProvider) {
+        this._isUnmounted = true;
+        if (this._sizeCorrectionFrame !== null) {
+            cancelAnimationFrame(this._sizeCorrectionFrame);
+            this._sizeCorrectionFrame = null;
+        }
+        //Nothing has been restored yet, saving now would overwrite the stored context
+        if (this.props.contextProvider && !this._isContextPending) {
             const uniqueKey = this.props.contextProvider.getUniqueKey();
             if (uniqueKey) {
-                this.props.contextProvider.save(uniqueKey, this.getCurrentScrollOffset());
-                if (this.props.forceNonDeterministicRendering) {
+                this._saveContextValue(uniqueKey, this.getCurrentScrollOffset());
+                if (this._isMeasuringItems()) {
                     if (this._virtualRenderer) {
                         const layoutManager = this._virtualRenderer.getLayoutManager();
                         if (layoutManager) {
-                            const layoutsToCache = layoutManager.getLayouts();
-                            this.props.contextProvider.save(uniqueKey + "_layouts", JSON.stringify({ layoutArray: layoutsToCache }));
+                            this._saveContextValue(uniqueKey + "_layouts", LayoutCache.serialize(layoutManager.getLayouts(), this.props.dataProvider,
+                                this._layout, !!this.props.isHorizontal));
                         }
                     }
                 }
@@ -207,20 +317,15 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
     }
 
     public componentWillMount(): void {
-        if (this.props.contextProvider) {
-            const uniqueKey = this.props.contextProvider.getUniqueKey();
+        const contextProvider = this.props.contextProvider;
+        if (contextProvider instanceof AsyncContextProvider) {
+            this._restoreAsyncContext(contextProvider);
+        } else if (contextProvider) {
+            const uniqueKey = contextProvider.getUniqueKey();
             if (uniqueKey) {
-                const offset = this.props.contextProvider.get(uniqueKey);
-                if (typeof offset === "number" && offset > 0) {
-                    this._initialOffset = offset;
-                }
-                if (this.props.forceNonDeterministicRendering) {
-                    const cachedLayouts = this.props.contextProvider.get(uniqueKey + "_layouts") as string;
-                    if (cachedLayouts && typeof cachedLayouts === "string") {
-                        this._cachedLayouts = JSON.parse(cachedLayouts).layoutArray;
-                    }
-                }
-                this.props.contextProvider.remove(uniqueKey);
+                this._applyContext(contextProvider.get(uniqueKey),
+                    this._isMeasuringItems() ? contextProvider.get(uniqueKey + "_layouts") : undefined);
+                contextProvider.remove(uniqueKey);
             }
         }
     }
@@ -228,8 +333,18 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
     public scrollToIndex(index: number, animate?: boolean): void {
         const layoutManager = this._virtualRenderer.getLayoutManager();
         if (layoutManager) {
+            const dimension = layoutManager.getLayoutDimension();
             const offsets = layoutManager.getOffsetForIndex(index);
-            this.scrollToOffset(offsets.x, offsets.y, animate);
+            const newDimension = layoutManager.getLayoutDimension();
+            if (dimension.height !== newDimension.height || dimension.width !== newDimension.width) {
+                //Estimated content size got refined while computing the layout, scroll once new size has been rendered
+                this._pendingScrollToOffset = offsets;
+                this._isPendingScrollAnimated = !!animate;
+                this._hasPendingCrossOffset = true;
+                this.setState({});
+            } else {
+                this._scrollToItemOffset(offsets, animate);
+            }
         } else {
             console.warn(Messages.WARN_SCROLL_TO_INDEX); //tslint:disable-line
         }
@@ -245,6 +360,29 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         }
     }
 
+    //Scrolls to an item by its index in the source of a DerivedDataProvider, nothing happens if the item is filtered out
+    public scrollToSourceIndex(sourceIndex: number, animate?: boolean): void {
+        const dataProvider = this.props.dataProvider;
+        if (dataProvider instanceof DerivedDataProvider) {
+            const viewIndex = dataProvider.getViewIndex(sourceIndex);
+            if (viewIndex >= 0) {
+                this.scrollToIndex(viewIndex, animate);
+            }
+        } else {
+            console.warn(Messages.WARN_SCROLL_TO_SOURCE_INDEX); //tslint:disable-line
+        }
+    }
+
+    //Scrolls to the header (or first row) of the given section, works only with SectionDataProvider
+    public scrollToSection(sectionIndex: number, animate?: boolean): void {
+        const dataProvider = this.props.dataProvider;
+        if (dataProvider instanceof SectionDataProvider) {
+            this.scrollToIndex(dataProvider.getIndexForSection(sectionIndex), animate);
+        } else {
+            console.warn(Messages.WARN_SCROLL_TO_SECTION); //tslint:disable-line
+        }
+    }
+
     public scrollToTop(animate?: boolean): void {
         this.scrollToOffset(0, 0, animate);
     }
@@ -260,9 +398,9 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         }
     }
 
+    //Includes header size, same as offsets reported in onScroll
     public getCurrentScrollOffset(): number {
-        const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
-        return viewabilityTracker ? viewabilityTracker.getLastOffset() : 0;
+        return this._getItemOffset() + this._headerSize;
     }
 
     public findApproxFirstVisibleIndex(): number {
@@ -270,42 +408,219 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         return viewabilityTracker ? viewabilityTracker.findFirstLogicallyVisibleIndex() : 0;
     }
 
+    //Selection is tracked by stable ids, cells whose selection changes are the only ones re-rendered
+    public isSelected(index: number): boolean {
+        return this._selection.getSelectedCount() > 0 && this._selection.isSelected(this.props.dataProvider.getStableId(index));
+    }
+
+    public getSelectedIds(): string[] {
+        return this._selection.getSelectedIds();
+    }
+
+    public select(index: number): void {
+        this._applySelection(this._selection.select(this.props.dataProvider.getStableId(index)));
+    }
+
+    public deselect(index: number): void {
+        this._applySelection(this._selection.deselect(this.props.dataProvider.getStableId(index)));
+    }
+
+    public toggleSelection(index: number): void {
+        this._applySelection(this._selection.toggle(this.props.dataProvider.getStableId(index)));
+    }
+
+    //Selects everything between the anchor (item last selected or toggled) and the given index e.g, on shift click. Replaces the current selection,
+    //behaves like select if there is no anchor or it's not in the data anymore.
+    public selectRange(index: number): void {
+        const dataProvider = this.props.dataProvider;
+        const anchorId = this._selection.getAnchorId();
+        const anchorIndex = anchorId !== null ? dataProvider.getIndexForStableId(anchorId) : -1;
+        if (anchorIndex < 0) {
+            this.select(index);
+            return;
+        }
+        const ids: string[] = [];
+        const step = index >= anchorIndex ? 1 : -1;
+        for (let i = anchorIndex; i !== index + step; i += step) {
+            ids.push(dataProvider.getStableId(i));
+        }
+        this._applySelection(this._selection.selectRange(ids));
+    }
+
+    //Selects every item in the data provider including the ones not rendered, ignored in single selection mode
+    public selectAll(): void {
+        const dataProvider = this.props.dataProvider;
+        const count = dataProvider.getSize();
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(dataProvider.getStableId(i));
+        }
+        this._applySelection(this._selection.selectAll(ids));
+    }
+
+    public clearSelection(): void {
+        this._applySelection(this._selection.clear());
+    }
+
     public render(): JSX.Element {
+        const renderPlaceholder = this._getPlaceholderRenderer();
+        if (renderPlaceholder) {
+            return this._renderWithPlaceholder(renderPlaceholder);
+        }
+        const startShift = this._getStartShift();
         return (
             <ScrollComponent
                 ref={(scrollComponent) => this._scrollComponent = scrollComponent as BaseScrollComponent | null}
                 {...this.props}
                 onScroll={this._onScroll}
                 onSizeChanged={this._onSizeChanged}
-                contentHeight={this._initComplete ? this._virtualRenderer.getLayoutDimension().height : 0}
-                contentWidth={this._initComplete ? this._virtualRenderer.getLayoutDimension().width : 0}>
+                onHeaderSizeChanged={this._onHeaderSizeChanged}
+                renderFooter={this.props.renderFooter ? this._renderFooter : undefined}
+                trailingInset={this._getInset(false)}
+                contentHeight={this._initComplete ? this._virtualRenderer.getLayoutDimension().height + (this.props.isHorizontal ? 0 : startShift) : 0}
+                contentWidth={this._initComplete ? this._virtualRenderer.getLayoutDimension().width + (this.props.isHorizontal ? startShift : 0) : 0}>
                 {this._generateRenderStack()}
+                {this._initComplete && this.props.stickyHeaderIndices && this.props.stickyHeaderIndices.length > 0 ?
+                    <StickyHeader ref={(stickyHeader) => this._stickyHeader = stickyHeader}
+                        stickyHeaderIndices={this.props.stickyHeaderIndices}
+                        isHorizontal={this.props.isHorizontal}
+                        getLayoutForIndex={this._getLayoutForIndex}
+                        renderHeader={this._renderStickyHeader} /> : null}
             </ScrollComponent>
 
         );
     }
 
-    private _checkAndChangeLayouts(newProps: RecyclerListViewProps, forceFullRender?: boolean): void {
+    private _applySelection(hasChanged: boolean): void {
+        if (hasChanged) {
+            this._notifySelectionChange(this.props);
+            this.setState((prevState) => {
+                return prevState;
+            });
+        }
+    }
+
+    private _notifySelectionChange(props: RecyclerListViewProps): void {
+        if (props.onSelectionChanged) {
+            props.onSelectionChanged(this._selection.getSelectedIds());
+        }
+    }
+
+    private _renderFooter(): JSX.Element | JSX.Element[] | null {
+        return this.props.renderFooter ? this.props.renderFooter(this._endReachedStatus, this._retryEndReached, this._endReachedError) : null;
+    }
+
+    //Scroll component stays mounted and keeps the header, placeholder fills the rest of the window. Trackers keep running with the real data
+    //so switching back only needs a render.
+    private _renderWithPlaceholder(renderPlaceholder: () => JSX.Element | JSX.Element[] | null): JSX.Element {
+        const remainingHeight = Math.max(0, this._layout.height - (this.props.isHorizontal ? 0 : this._headerSize));
+        const remainingWidth = Math.max(0, this._layout.width - (this.props.isHorizontal ? this._headerSize : 0));
+        return (
+            <ScrollComponent
+                ref={(scrollComponent) => this._scrollComponent = scrollComponent as BaseScrollComponent | null}
+                {...this.props}
+                onScroll={this._onScroll}
+                onSizeChanged={this._onSizeChanged}
+                onHeaderSizeChanged={this._onHeaderSizeChanged}
+                renderFooter={undefined}
+                trailingInset={0}
+                contentHeight={remainingHeight}
+                contentWidth={remainingWidth}>
+                {renderPlaceholder()}
+            </ScrollComponent>
+        );
+    }
+
+    //Error takes precedence over loading and loading over empty. Null if items should be rendered.
+    private _getPlaceholderRenderer(): (() => JSX.Element | JSX.Element[] | null) | null {
+        const { error, renderError, renderLoading, renderEmpty } = this.props;
+        if (renderError && !ObjectUtil.isNullOrUndefined(error)) {
+            return () => renderError(error);
+        }
+        if (renderLoading && (this.props.isLoading || this._isContextPending)) {
+            return renderLoading;
+        }
+        if (renderEmpty && this.props.dataProvider.getSize() === 0) {
+            return renderEmpty;
+        }
+        return null;
+    }
+
+    //In anchorToEnd mode distance from the end is preserved instead of the first visible index. Pass the distance if window size has already changed.
+    private _checkAndChangeLayouts(newProps: RecyclerListViewProps, forceFullRender?: boolean, distanceFromEnd?: number): void {
         this._params.isHorizontal = newProps.isHorizontal;
         this._params.itemCount = newProps.dataProvider.getSize();
+        this._params.anchorToEnd = newProps.anchorToEnd;
         this._virtualRenderer.setParamsAndDimensions(this._params, this._layout);
-        if (forceFullRender || this.props.layoutProvider !== newProps.layoutProvider || this.props.isHorizontal !== newProps.isHorizontal) {
+        if (forceFullRender || this.props.layoutProvider !== newProps.layoutProvider || this.props.isHorizontal !== newProps.isHorizontal ||
+            this.props.layoutManagerFactory !== newProps.layoutManagerFactory || this.props.isRTL !== newProps.isRTL ||
+            this.props.layoutSpacing !== newProps.layoutSpacing) {
+            if (newProps.anchorToEnd) {
+                distanceFromEnd = distanceFromEnd !== undefined ? distanceFromEnd : this._virtualRenderer.getDistanceFromEnd();
+            }
             //TODO:Talha use old layout manager
-            this._virtualRenderer.setLayoutManager(new LayoutManager(newProps.layoutProvider, this._layout, newProps.isHorizontal));
-            this._virtualRenderer.refreshWithAnchor();
-            this._refreshViewability();
+            this._virtualRenderer.setLayoutManager(this._createLayoutManager(newProps));
+            if (newProps.anchorToEnd) {
+                this._virtualRenderer.refreshWithEndAnchor(Default.value<number>(distanceFromEnd, 0));
+                this._queueStateRefresh();
+            } else {
+                this._virtualRenderer.refreshWithAnchor();
+                this._refreshViewability();
+            }
         } else if (this.props.dataProvider !== newProps.dataProvider) {
+            //Indexes may point to other items now, cells report their sizes again after re-render
+            this._pendingSizeCorrections = {};
             const layoutManager = this._virtualRenderer.getLayoutManager();
             if (layoutManager) {
-                layoutManager.reLayoutFromIndex(newProps.dataProvider.getFirstIndexToProcessInternal(), newProps.dataProvider.getSize());
-                this._virtualRenderer.refresh();
+                distanceFromEnd = newProps.anchorToEnd ? this._virtualRenderer.getDistanceFromEnd() : 0;
+                const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
+                const anchorIndex = viewabilityTracker ? viewabilityTracker.findFirstLogicallyVisibleIndex() : -1;
+                const anchorLayout = layoutManager.getLayouts()[anchorIndex];
+                const anchorStart = anchorLayout ? this._getMainOffset(layoutManager.getOffsetForIndex(anchorIndex)) : 0;
+                const distanceFromAnchor = viewabilityTracker ? viewabilityTracker.getLastOffset() - anchorStart : 0;
+                const newSize = newProps.dataProvider.getSize();
+                const changeSet = newProps.dataProvider.getChangeSetFrom(this.props.dataProvider);
+                if (changeSet) {
+                    this._virtualRenderer.applyChangeSet(changeSet);
+                    layoutManager.applyChangeSet(changeSet, newSize);
+                } else {
+                    if (newProps.dataProvider.hasStableIds() && this.props.dataProvider.hasStableIds()) {
+                        this._virtualRenderer.rebindByStableIds(this.props.dataProvider, newProps.dataProvider);
+                    }
+                    const firstIndex = newProps.dataProvider.getFirstIndexToProcessInternal();
+                    const unchangedEndCount = newProps.dataProvider.getUnchangedEndCountInternal();
+                    layoutManager.spliceLayouts(firstIndex, Math.max(0, this.props.dataProvider.getSize() - firstIndex - unchangedEndCount),
+                        Math.max(0, newSize - firstIndex - unchangedEndCount), newSize);
+                }
+                const newAnchorIndex = anchorLayout ? this._getIndexAfterDataChange(anchorIndex, newProps.dataProvider, changeSet) : -1;
+                const headerIndex = anchorLayout && newAnchorIndex < 0 ? this._getHeaderIndexForHiddenItem(anchorIndex, newProps.dataProvider) : -1;
+                if (newProps.anchorToEnd) {
+                    this._virtualRenderer.refreshWithEndAnchor(distanceFromEnd);
+                } else if (headerIndex >= 0 && headerIndex < newSize) {
+                    //First visible item was hidden by collapsing its group, header was scrolled past and is brought to the top of the viewport
+                    this._virtualRenderer.refreshWithItemAnchor(headerIndex, 0);
+                    this._isCompensatingScroll = true;
+                } else if (newAnchorIndex >= 0 && newAnchorIndex < newSize &&
+                    this._getMainOffset(layoutManager.getOffsetForIndex(newAnchorIndex)) !== anchorStart) {
+                    //Items were added or removed before the first visible one, it's kept exactly where it was
+                    this._virtualRenderer.refreshWithItemAnchor(newAnchorIndex, distanceFromAnchor);
+                    this._isCompensatingScroll = true;
+                } else {
+                    this._virtualRenderer.refresh();
+                }
             }
         } else if (this._relayoutReqIndex >= 0) {
             const layoutManager = this._virtualRenderer.getLayoutManager();
             if (layoutManager) {
+                distanceFromEnd = newProps.anchorToEnd ? this._virtualRenderer.getDistanceFromEnd() : 0;
                 layoutManager.reLayoutFromIndex(this._relayoutReqIndex, newProps.dataProvider.getSize());
                 this._relayoutReqIndex = -1;
-                this._refreshViewability();
+                if (newProps.anchorToEnd) {
+                    this._virtualRenderer.refreshWithEndAnchor(distanceFromEnd);
+                    this._queueStateRefresh();
+                } else {
+                    this._refreshViewability();
+                }
             }
         }
     }
@@ -325,6 +640,8 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
     }
 
     private _onSizeChanged(layout: Dimension): void {
+        //Needs to be computed with the old window size
+        const distanceFromEnd = this._initComplete && this.props.anchorToEnd ? this._virtualRenderer.getDistanceFromEnd() : 0;
         const hasHeightChanged = this._layout.height !== layout.height;
         const hasWidthChanged = this._layout.width !== layout.width;
         this._layout.height = layout.height;
@@ -333,14 +650,20 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
             throw new CustomError(RecyclerListViewExceptions.layoutException);
         }
         if (!this._initComplete) {
-            this._initComplete = true;
-            this._initTrackers();
-            this._processOnEndReached();
+            if (!this._isContextPending) {
+                this._completeInit();
+            } else {
+                //Placeholder, if any, needs the new size
+                this.setState({});
+            }
         } else {
             if ((hasHeightChanged && hasWidthChanged) ||
                 (hasHeightChanged && this.props.isHorizontal) ||
                 (hasWidthChanged && !this.props.isHorizontal)) {
-                this._checkAndChangeLayouts(this.props, true);
+                this._checkAndChangeLayouts(this.props, true, distanceFromEnd);
+            } else if (this.props.anchorToEnd) {
+                this._virtualRenderer.refreshWithEndAnchor(distanceFromEnd);
+                this._queueStateRefresh();
             } else {
                 this._refreshViewability();
             }
@@ -353,24 +676,91 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         });
     }
 
+    //Axis specific offsets fall back to renderAheadOffset
+    private _getRenderAheadOffset(isVertical: boolean): number | undefined {
+        const axisOffset = isVertical ? this.props.verticalRenderAheadOffset : this.props.horizontalRenderAheadOffset;
+        return axisOffset !== undefined ? axisOffset : this.props.renderAheadOffset;
+    }
+
+    private _applyContext(offset?: string | number | null, cachedLayouts?: string | number | null): void {
+        if (typeof offset === "number" && offset > 0) {
+            this._initialOffset = offset;
+        }
+        if (cachedLayouts && typeof cachedLayouts === "string") {
+            this._layoutCache = LayoutCache.parse(cachedLayouts);
+        }
+    }
+
+    //Trackers aren't initialized till saved values resolve, if list gets measured meanwhile init happens once they do. Failed reads mean nothing to
+    //restore. Errors thrown while initializing are rethrown outside of the promise so that they aren't swallowed.
+    private _restoreAsyncContext(contextProvider: AsyncContextProvider): void {
+        const uniqueKey = contextProvider.getUniqueKey();
+        if (uniqueKey) {
+            this._isContextPending = true;
+            const getValue = (key: string) => contextProvider.get(key).catch(() => null);
+            Promise.all([
+                getValue(uniqueKey),
+                this._isMeasuringItems() ? getValue(uniqueKey + "_layouts") : undefined,
+            ]).then((values) => {
+                this._applyContext(values[0], values[1]);
+                return contextProvider.remove(uniqueKey).catch(() => {
+                    //no need
+                });
+            }).then(() => {
+                this._isContextPending = false;
+                if (!this._isUnmounted && this._layout.height > 0 && this._layout.width > 0) {
+                    this._completeInit();
+                    this.setState({});
+                }
+            }).catch((error) => {
+                setTimeout(() => {
+                    throw error;
+                }, 0);
+            });
+        }
+    }
+
+    //Async saves run in the background, a failed save only means context won't be restored next time
+    private _saveContextValue(key: string, value: string | number): void {
+        const contextProvider = this.props.contextProvider;
+        if (contextProvider instanceof AsyncContextProvider) {
+            contextProvider.save(key, value).catch(() => {
+                //no need
+            });
+        } else if (contextProvider) {
+            contextProvider.save(key, value);
+        }
+    }
+
+    private _completeInit(): void {
+        this._initComplete = true;
+        this._initTrackers();
+        this._processOnEndReached();
+        this._processOnStartReached();
+    }
+
     private _initTrackers(): void {
         this._assertDependencyPresence(this.props);
-        if (this.props.onVisibleIndexesChanged) {
-            this._virtualRenderer.attachVisibleItemsListener(this.props.onVisibleIndexesChanged);
+        if (this.props.onVisibleIndexesChanged || this.props.onVisibleSourceIndexesChanged) {
+            this._virtualRenderer.attachVisibleItemsListener(this._onVisibleIndexesChanged);
         }
+        const initialOffset = this.props.initialOffset ? this.props.initialOffset : this._initialOffset;
         this._params = {
-            initialOffset: this.props.initialOffset ? this.props.initialOffset : this._initialOffset,
+            initialOffset: initialOffset > 0 ? initialOffset - this._headerSize : 0,
             initialRenderIndex: this.props.initialRenderIndex,
             isHorizontal: this.props.isHorizontal,
             itemCount: this.props.dataProvider.getSize(),
-            renderAheadOffset: this.props.renderAheadOffset,
+            renderAheadOffset: this._getRenderAheadOffset(!this.props.isHorizontal),
+            anchorToEnd: this.props.anchorToEnd,
+            isTwoDimensional: this.props.isTwoDimensional,
+            crossRenderAheadOffset: this._getRenderAheadOffset(!!this.props.isHorizontal),
         };
         this._virtualRenderer.setParamsAndDimensions(this._params, this._layout);
-        this._virtualRenderer.setLayoutManager(new LayoutManager(this.props.layoutProvider, this._layout, this.props.isHorizontal, this._cachedLayouts));
+        this._virtualRenderer.setLayoutManager(this._createLayoutManager(this.props, this._getCachedLayouts()));
         this._virtualRenderer.setLayoutProvider(this.props.layoutProvider);
         this._virtualRenderer.init();
         const offset = this._virtualRenderer.getInitialOffset();
-        if (offset.y > 0 || offset.x > 0) {
+        if (offset.y > 0 || offset.x > 0 || (this._headerSize > 0 && (offset.y < 0 || offset.x < 0))) {
             this._pendingScrollToOffset = offset;
             this.setState({});
         } else {
@@ -378,6 +768,20 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         }
     }
 
+    //Cache is matched against current data and window size, it's used only for the first layout pass
+    private _getCachedLayouts(): Rect[] | undefined {
+        const layoutCache = this._layoutCache;
+        this._layoutCache = null;
+        return layoutCache ? LayoutCache.restore(layoutCache, this.props.dataProvider, this._layout, !!this.props.isHorizontal) : undefined;
+    }
+
+    private _createLayoutManager(props: RecyclerListViewProps, cachedLayouts?: Rect[]): BaseLayoutManager {
+        if (props.layoutManagerFactory) {
+            return props.layoutManagerFactory(props.layoutProvider, this._layout, props.isHorizontal, cachedLayouts, props.isRTL, props.layoutSpacing);
+        }
+        return new LayoutManager(props.layoutProvider, this._layout, props.isHorizontal, cachedLayouts, props.isRTL, props.layoutSpacing);
+    }
+
     private _assertDependencyPresence(props: RecyclerListViewProps): void {
         if (!props.dataProvider || !props.layoutProvider) {
             throw new CustomError(RecyclerListViewExceptions.unresolvedDependenciesException);
@@ -398,37 +802,162 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         const dataSize = this.props.dataProvider.getSize();
         const dataIndex = itemMeta.dataIndex;
         if (!ObjectUtil.isNullOrUndefined(dataIndex) && dataIndex < dataSize) {
-            const itemRect = (this._virtualRenderer.getLayoutManager() as LayoutManager).getLayouts()[dataIndex];
+            const layoutManager = this._virtualRenderer.getLayoutManager() as BaseLayoutManager;
+            if (!layoutManager.getLayouts()[dataIndex]) {
+                //Recycled items may point to layouts which haven't been computed yet, this computes them
+                layoutManager.getOffsetForIndex(dataIndex);
+            }
+            const itemRect = layoutManager.getLayouts()[dataIndex];
             const data = this.props.dataProvider.getDataForIndex(dataIndex);
             const type = this.props.layoutProvider.getLayoutTypeForIndex(dataIndex);
             this._assertType(type);
-            if (!this.props.forceNonDeterministicRendering) {
+            if (!this._isMeasuringItems()) {
                 this._checkExpectedDimensionDiscrepancy(itemRect, type, dataIndex);
             }
             return (
                 <ViewRenderer key={itemMeta.key} data={data}
                     dataHasChanged={this._dataHasChanged}
-                    x={itemRect.x}
-                    y={itemRect.y}
+                    x={this._getRenderX(itemRect.x, itemRect.width)}
+                    y={this._getRenderY(itemRect.y)}
                     layoutType={type}
                     index={dataIndex}
                     layoutProvider={this.props.layoutProvider}
-                    forceNonDeterministicRendering={this.props.forceNonDeterministicRendering}
+                    forceNonDeterministicRendering={this._isMeasuringItems()}
                     isHorizontal={this.props.isHorizontal}
                     onSizeChanged={this._onViewContainerSizeChange}
                     childRenderer={this.props.rowRenderer}
                     height={itemRect.height}
                     width={itemRect.width}
                     itemAnimator={Default.value<ItemAnimator>(this.props.itemAnimator, this._defaultItemAnimator)}
+                    isSelected={this.isSelected(dataIndex)}
+                    renderOnIndexChange={this.props.rowRendererUsesIndex}
                     extendedState={this.props.extendedState} />
             );
         }
         return null;
     }
 
+    //In horizontal RTL mode x is measured from the right edge where scroll component places the origin, items extend to the left of it
+    private _getRenderX(x: number, width: number): number {
+        if (this.props.isHorizontal) {
+            x += this._getStartShift();
+        }
+        return this.props.isRTL && this.props.isHorizontal ? -(x + width) : x;
+    }
+
+    private _getRenderY(y: number): number {
+        return this.props.isHorizontal ? y : y + this._getStartShift();
+    }
+
+    //In anchorToEnd mode content shorter than the window is pushed against the end of the window, header stays at the start
+    private _getStartShift(): number {
+        if (this.props.anchorToEnd && this._initComplete) {
+            const dimension = this._virtualRenderer.getLayoutDimension();
+            return Math.max(0, (this.props.isHorizontal ? this._layout.width - dimension.width : this._layout.height - dimension.height) - this._headerSize);
+        }
+        return 0;
+    }
+
+    private _getItemOffset(): number {
+        const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
+        return viewabilityTracker ? viewabilityTracker.getLastOffset() : 0;
+    }
+
+    //Offsets from layout manager and virtual renderer are relative to the first item
+    private _scrollToItemOffset(offset: Point, animate?: boolean): void {
+        if (this.props.isHorizontal) {
+            this.scrollToOffset(offset.x + this._headerSize, offset.y, animate);
+        } else {
+            this.scrollToOffset(offset.x, offset.y + this._headerSize, animate);
+        }
+    }
+
+    //If header is scrolled out of view content stays where it is, otherwise scroll position is kept and content moves along with header's end
+    private _onHeaderSizeChanged(dim: Dimension): void {
+        const headerSize = this.props.isHorizontal ? dim.width : dim.height;
+        if (headerSize !== this._headerSize) {
+            const oldHeaderSize = this._headerSize;
+            const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
+            this._headerSize = headerSize;
+            this._virtualRenderer.setLeadingSpace(headerSize);
+            if (viewabilityTracker && !this._pendingScrollToOffset) {
+                const itemOffset = viewabilityTracker.getLastOffset();
+                if (itemOffset >= 0) {
+                    this._pendingScrollToOffset = this.props.isHorizontal ? { x: itemOffset, y: 0 } : { x: 0, y: itemOffset };
+                } else {
+                    const newOffset = itemOffset + oldHeaderSize - headerSize;
+                    const crossOffset = viewabilityTracker.getLastCrossOffset();
+                    this._virtualRenderer.updateOffset(this.props.isHorizontal ? newOffset : crossOffset, this.props.isHorizontal ? crossOffset : newOffset);
+                }
+            }
+            this.setState({});
+        }
+    }
+
+    private _getLayoutForIndex(index: number): Rect | undefined {
+        const layoutManager = this._virtualRenderer.getLayoutManager();
+        return layoutManager ? layoutManager.getLayouts()[index] : undefined;
+    }
+
+    //Pinned copy of the header, it never reports size changes or animates since it moves on every scroll
+    private _renderStickyHeader(index: number, x: number, y: number): JSX.Element | null {
+        const itemRect = this._getLayoutForIndex(index);
+        if (!itemRect || index >= this.props.dataProvider.getSize()) {
+            return null;
+        }
+        const type = this.props.layoutProvider.getLayoutTypeForIndex(index);
+        this._assertType(type);
+        return (
+            <ViewRenderer key={index} data={this.props.dataProvider.getDataForIndex(index)}
+                dataHasChanged={this._dataHasChanged}
+                x={this._getRenderX(x, itemRect.width)}
+                y={this._getRenderY(y)}
+                layoutType={type}
+                index={index}
+                layoutProvider={this.props.layoutProvider}
+                forceNonDeterministicRendering={false}
+                isHorizontal={this.props.isHorizontal}
+                onSizeChanged={this._onStickyHeaderSizeChange}
+                childRenderer={this.props.rowRenderer}
+                height={itemRect.height}
+                width={itemRect.width}
+                itemAnimator={this._stickyHeaderItemAnimator}
+                isSelected={this.isSelected(index)}
+                renderOnIndexChange={this.props.rowRendererUsesIndex}
+                extendedState={this.props.extendedState} />
+        );
+    }
+
+    private _onStickyHeaderSizeChange(dim: Dimension, index: number): void {
+        //no need
+    }
+
+    private _onVisibleIndexesChanged(all: number[], now: number[], notNow: number[]): void {
+        if (this.props.onVisibleIndexesChanged) {
+            this.props.onVisibleIndexesChanged(all, now, notNow);
+        }
+        const dataProvider = this._incomingDataProvider ? this._incomingDataProvider : this.props.dataProvider;
+        if (this.props.onVisibleSourceIndexesChanged && dataProvider instanceof DerivedDataProvider) {
+            const toSourceIndexes = (indexes: number[]) => indexes.map((index) => dataProvider.getSourceIndex(index));
+            this.props.onVisibleSourceIndexesChanged(toSourceIndexes(all), toSourceIndexes(now), toSourceIndexes(notNow));
+        }
+    }
+
+    //Lets data providers load data for items about to be rendered e.g, PagedDataProvider fetches pages
+    private _onEngagedIndexesChanged(all: number[], now: number[], notNow: number[]): void {
+        this.props.dataProvider.onEngagedIndexesChanged(all, now, notNow);
+    }
+
     private _onViewContainerSizeChange(dim: Dimension, index: number): void {
+        if (this.props.useEstimatedSizes) {
+            this._pendingSizeCorrections[index] = { height: dim.height, width: dim.width };
+            if (this._sizeCorrectionFrame === null) {
+                this._sizeCorrectionFrame = requestAnimationFrame(this._applySizeCorrections);
+            }
+            return;
+        }
         //Cannot be null here
-        (this._virtualRenderer.getLayoutManager() as LayoutManager).overrideLayout(index, dim);
+        (this._virtualRenderer.getLayoutManager() as BaseLayoutManager).overrideLayout(index, dim);
         if (this._relayoutReqIndex === -1) {
             this._relayoutReqIndex = index;
         } else {
@@ -437,9 +966,57 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
         this._queueStateRefresh();
     }
 
+    private _isMeasuringItems(): boolean {
+        return !!this.props.forceNonDeterministicRendering || !!this.props.useEstimatedSizes;
+    }
+
+    //Applies all sizes measured in the last frame with a single relayout. If anything before the first visible item changed, scroll offset moves by
+    //the same amount so that visible content stays where it is.
+    private _applySizeCorrections(): void {
+        this._sizeCorrectionFrame = null;
+        const corrections = this._pendingSizeCorrections;
+        this._pendingSizeCorrections = {};
+        const layoutManager = this._virtualRenderer.getLayoutManager();
+        const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
+        if (!layoutManager || !viewabilityTracker || this._isUnmounted) {
+            return;
+        }
+        const itemCount = this.props.dataProvider.getSize();
+        const anchorIndex = viewabilityTracker.findFirstLogicallyVisibleIndex();
+        const anchorLayout = layoutManager.getLayouts()[anchorIndex];
+        const distanceFromAnchor = anchorLayout ? viewabilityTracker.getLastOffset() - this._getMainOffset(layoutManager.getOffsetForIndex(anchorIndex)) : 0;
+        let minIndex = -1;
+        for (const key in corrections) {
+            if (corrections.hasOwnProperty(key)) {
+                const index = parseInt(key, 10);
+                if (index < itemCount) {
+                    layoutManager.overrideLayout(index, corrections[index]);
+                    minIndex = minIndex === -1 ? index : Math.min(minIndex, index);
+                }
+            }
+        }
+        if (minIndex === -1) {
+            return;
+        }
+        const distanceFromEnd = this.props.anchorToEnd ? this._virtualRenderer.getDistanceFromEnd() : 0;
+        layoutManager.reLayoutFromIndex(minIndex, itemCount);
+        if (this.props.anchorToEnd) {
+            this._virtualRenderer.refreshWithEndAnchor(distanceFromEnd);
+            this._isCompensatingScroll = true;
+        } else if (anchorLayout && minIndex < anchorIndex && viewabilityTracker.getLastOffset() > 0) {
+            this._virtualRenderer.refreshWithItemAnchor(anchorIndex, distanceFromAnchor);
+            this._isCompensatingScroll = true;
+        } else {
+            this._virtualRenderer.refresh();
+        }
+        this.setState((prevState) => {
+            return prevState;
+        });
+    }
+
     private _checkExpectedDimensionDiscrepancy(itemRect: Dimension, type: string | number, index: number): void {
         //Cannot be null here
-        const layoutManager = this._virtualRenderer.getLayoutManager() as LayoutManager;
+        const layoutManager = this._virtualRenderer.getLayoutManager() as BaseLayoutManager;
         layoutManager.setMaxBounds(this._tempDim);
         this.props.layoutProvider.setLayoutForType(type, this._tempDim, index);
 
@@ -466,29 +1043,134 @@ export default class RecyclerListView extends React.Component<RecyclerListViewPr
     }
 
     private _onScroll(offsetX: number, offsetY: number, rawEvent: ScrollEvent): void {
-        this._virtualRenderer.updateOffset(offsetX, offsetY);
+        const itemOffsetX = this.props.isHorizontal ? offsetX - this._headerSize : offsetX;
+        const itemOffsetY = this.props.isHorizontal ? offsetY : offsetY - this._headerSize;
+        this._virtualRenderer.updateOffset(itemOffsetX, itemOffsetY);
+        if (this._stickyHeader) {
+            this._stickyHeader.onScroll(this.props.isHorizontal ? itemOffsetX : itemOffsetY);
+        }
         if (this.props.onScroll) {
             this.props.onScroll(rawEvent, offsetX, offsetY);
         }
         this._processOnEndReached();
+        this._processOnStartReached();
+    }
+
+    private _getMainOffset(point: Point): number {
+        return this.props.isHorizontal ? point.x : point.y;
+    }
+
+    //Index of the item at given index in the current data provider after data changes to the new one, -1 if not known or removed. Without a
+    //change set or stable ids items are only followed if they're before the first changed index or in the unchanged tail.
+    private _getIndexAfterDataChange(index: number, newDataProvider: DataProvider, changeSet: DataChangeSet | null): number {
+        const oldDataProvider = this.props.dataProvider;
+        if (changeSet) {
+            return changeSet.getNewIndex(index);
+        }
+        if (oldDataProvider.hasStableIds() && newDataProvider.hasStableIds()) {
+            return newDataProvider.getIndexForStableId(oldDataProvider.getStableId(index));
+        }
+        if (index < newDataProvider.getFirstIndexToProcessInternal()) {
+            return index;
+        }
+        if (index >= oldDataProvider.getSize() - newDataProvider.getUnchangedEndCountInternal()) {
+            return index + newDataProvider.getSize() - oldDataProvider.getSize();
+        }
+        return -1;
+    }
+
+    //Only collapse clones of GroupedDataProvider anchor the header, other removals of the first visible item keep the scroll offset
+    private _getHeaderIndexForHiddenItem(index: number, newDataProvider: DataProvider): number {
+        const oldDataProvider = this.props.dataProvider;
+        if (newDataProvider instanceof GroupedDataProvider && oldDataProvider instanceof GroupedDataProvider) {
+            return newDataProvider.getHeaderIndexForHiddenItem(oldDataProvider, index);
+        }
+        return -1;
+    }
+
+    //Insets aren't items, start and end are considered reached once the first or the last row is in view. Layout managers which don't apply
+    //spacing have no insets.
+    private _getInset(isLeading: boolean): number {
+        const layoutManager = this._virtualRenderer.getLayoutManager();
+        if (!layoutManager || !layoutManager.supportsLayoutSpacing()) {
+            return 0;
+        }
+        const layoutSpacing = this.props.layoutSpacing;
+        const inset = layoutSpacing ? (isLeading ? layoutSpacing.leadingInset : layoutSpacing.trailingInset) : 0;
+        return inset ? inset : 0;
+    }
+
+    //Placeholders are not content, start and end aren't reported while one is shown
+    private _processOnStartReached(): void {
+        if (this.props.onStartReached && this._virtualRenderer && !this._getPlaceholderRenderer()) {
+            const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
+            const lastOffset = viewabilityTracker ? viewabilityTracker.getLastOffset() : 0;
+            if (lastOffset - this._getInset(true) <= Default.value<number>(this.props.onStartReachedThreshold, 0)) {
+                if (!this._onStartReachedCalled) {
+                    this._onStartReachedCalled = true;
+                    this.props.onStartReached();
+                }
+            } else {
+                this._onStartReachedCalled = false;
+            }
+        }
     }
 
     private _processOnEndReached(): void {
-        if (this.props.onEndReached && this._virtualRenderer) {
+        if (this.props.onEndReached && this._virtualRenderer && !this._getPlaceholderRenderer()) {
             const layout = this._virtualRenderer.getLayoutDimension();
             const windowBound = this.props.isHorizontal ? layout.width - this._layout.width : layout.height - this._layout.height;
             const viewabilityTracker = this._virtualRenderer.getViewabilityTracker();
             const lastOffset = viewabilityTracker ? viewabilityTracker.getLastOffset() : 0;
-            if (windowBound - lastOffset <= Default.value<number>(this.props.onEndReachedThreshold, 0)) {
-                if (!this._onEndReachedCalled) {
+            if (windowBound - this._getInset(false) - lastOffset <= Default.value<number>(this.props.onEndReachedThreshold, 0)) {
+                if (!this._onEndReachedCalled && this._endReachedStatus !== "loading" && this._endReachedStatus !== "end") {
                     this._onEndReachedCalled = true;
-                    this.props.onEndReached();
+                    this._callOnEndReached();
                 }
             } else {
                 this._onEndReachedCalled = false;
             }
         }
     }
+
+    //Duplicate calls are suppressed while a returned promise is pending. Once it resolves threshold is checked again after the next render since new
+    //items may still not fill the window, resolving with false marks the end of the list. Rejections show the error state till retried.
+    private _callOnEndReached(): void {
+        const result = this.props.onEndReached ? this.props.onEndReached() : undefined;
+        if (result && typeof result.then === "function") {
+            this._setEndReachedStatus("loading", null);
+            result.then((hasMore) => {
+                if (!this._isUnmounted) {
+                    if (hasMore === false) {
+                        this._endReachedDataProvider = this.props.dataProvider;
+                        this._setEndReachedStatus("end", null);
+                    } else {
+                        this._onEndReachedCalled = false;
+                        this._setEndReachedStatus("idle", null);
+                    }
+                }
+            }, (error) => {
+                if (!this._isUnmounted) {
+                    this._setEndReachedStatus("error", error);
+                }
+            });
+        }
+    }
+
+    private _retryEndReached(): void {
+        if (this._endReachedStatus !== "loading") {
+            this._onEndReachedCalled = true;
+            this._callOnEndReached();
+        }
+    }
+
+    private _setEndReachedStatus(status: EndReachedStatus, error: any): void {
+        this._endReachedStatus = status;
+        this._endReachedError = error;
+        this.setState((prevState) => {
+            return prevState;
+        });
+    }
 }
 
 RecyclerListView.propTypes = {
@@ -496,15 +1178,21 @@ RecyclerListView.propTypes = {
     //Refer the sample
     layoutProvider: PropTypes.instanceOf(LayoutProvider).isRequired,
 
-    //Refer the sample
+    //Refer the sample, use SectionDataProvider for sectioned lists
     dataProvider: PropTypes.instanceOf(DataProvider).isRequired,
 
-    //Used to maintain scroll position in case view gets destroyed e.g, cases of back navigation
-    contextProvider: PropTypes.instanceOf(ContextProvider),
+    //Used to maintain scroll position in case view gets destroyed e.g, cases of back navigation. Use AsyncContextProvider for promise based storages,
+    //items are rendered once saved values resolve.
+    contextProvider: PropTypes.oneOfType([PropTypes.instanceOf(ContextProvider), PropTypes.instanceOf(AsyncContextProvider)]),
 
     //Methods which returns react component to be rendered. You get type of view and data in the callback.
+    //rowRenderer(type, data, index, extendedState, isSelected)
     rowRenderer: PropTypes.func.isRequired,
 
+    //Default is false. Cells follow their items by stable id, an item which only moves to another index is re-laid out without calling
+    //rowRenderer again. Enable if what rowRenderer returns depends on the index e.g, zebra striping.
+    rowRendererUsesIndex: PropTypes.bool,
+
     //Initial offset you want to start rendering from, very useful if you want to maintain scroll context across pages.
     initialOffset: PropTypes.number,
 
@@ -523,25 +1211,59 @@ RecyclerListView.propTypes = {
     //Note: Please extend BaseScrollView to achieve expected behaviour
     externalScrollView: PropTypes.func,
 
-    //Callback given when user scrolls to the end of the list or footer just becomes visible, useful in incremental loading scenarios
+    //Callback given when user scrolls to the end of the list or footer just becomes visible, useful in incremental loading scenarios.
+    //Return a promise to avoid duplicate calls while loading, resolve it after new data is set. Threshold is checked again once it resolves,
+    //resolve with false if there's nothing more to load. Status is passed to renderFooter.
     onEndReached: PropTypes.func,
 
     //Specify how many pixels in advance you onEndReached callback
     onEndReachedThreshold: PropTypes.number,
 
+    //Callback given when user scrolls to the start of the list, useful for loading older items e.g, in chat screens with anchorToEnd or timelines
+    //loading in both directions. Items prepended to the data don't move the viewport, first visible item stays exactly where it was.
+    onStartReached: PropTypes.func,
+
+    //Specify how many pixels in advance you want onStartReached callback
+    onStartReachedThreshold: PropTypes.number,
+
     //Provides visible index, helpful in sending impression events etc, onVisibleIndexesChanged(all, now, notNow)
     onVisibleIndexesChanged: PropTypes.func,
 
+    //Same as onVisibleIndexesChanged but reports indexes in the source of a DerivedDataProvider, not called with other data providers
+    onVisibleSourceIndexesChanged: PropTypes.func,
+
     //Provide this method if you want to render a footer. Helpful in showing a loader while doing incremental loads.
+    //renderFooter(status, retry, error) where status is one of idle, loading, error and end. Call retry from the error state to load again.
     renderFooter: PropTypes.func,
 
+    //Rendered instead of items when data provider is empty. Scroll component and header stay mounted, placeholder gets the rest of the window.
+    renderEmpty: PropTypes.func,
+
+    //Rendered instead of items while isLoading is true or an AsyncContextProvider is being read, useful for initial loads. Takes precedence over
+    //renderEmpty.
+    renderLoading: PropTypes.func,
+
+    //Rendered instead of items when error prop is set, receives the error e.g, to show a retry button. Takes precedence over loading state.
+    renderError: PropTypes.func,
+
+    //Shows renderLoading placeholder if provided. Layouts and viewability keep tracking the data provider underneath.
+    isLoading: PropTypes.bool,
+
+    //Any non null value shows renderError placeholder if provided
+    error: PropTypes.any,
+
+    //Rendered before the first item and scrolls with the content. It's measured and re-measured on size change, scroll to methods, viewability,
+    //onEndReached and sticky headers account for it. Offsets in onScroll, getCurrentScrollOffset and scrollToOffset include the header.
+    renderHeader: PropTypes.func,
+
     //Specify the initial item index you want rendering to start from. Preferred over initialOffset if both are specified.
     initialRenderIndex: PropTypes.number,
 
     //iOS only. Scroll throttle duration.
     scrollThrottle: PropTypes.number,
 
-    //Specify if size can change, listview will automatically relayout items. For web, works only with useWindowScroll = true
+    //Specify if size can change, listview will automatically relayout items. On web container is observed using ResizeObserver, without it only
+    //window resizes are detected
     canChangeSize: PropTypes.bool,
 
     //Web only. Specify how far away the first list item is from window top. This is an adjustment for better optimization.
@@ -557,9 +1279,14 @@ RecyclerListView.propTypes = {
     //Rendered dimensions will be used to relayout items. Slower if enabled.
     forceNonDeterministicRendering: PropTypes.bool,
 
+    //Treats layout provider dimensions as estimates, items are measured once rendered. Measurements are applied once per frame with a single
+    //relayout and if items before the first visible one change size scroll offset is adjusted so that nothing on screen moves.
+    //Implies non deterministic rendering.
+    useEstimatedSizes: PropTypes.bool,
+
     //In some cases the data passed at row level may not contain all the info that the item depends upon, you can keep all other info
     //outside and pass it down via this prop. Changing this object will cause everything to re-render. Make sure you don't change
-    //it often to ensure performance. Re-renders are heavy.
+    //it often to ensure performance. Re-renders are heavy. Don't use it for selection, see selectionMode.
     extendedState: PropTypes.object,
 
     //Enables animating RecyclerListView item cells e.g, shift, add, remove etc. This prop can be used to pass an external item animation implementation.
@@ -569,4 +1296,51 @@ RecyclerListView.propTypes = {
     //Note: This enables and uses Layout Animation on React Native, if that affects your workflow please disable animation or, write your own
     //without using Layout Animation. You get access to item reference to write your own animations.
     itemAnimator: PropTypes.instanceOf(BaseItemAnimator),
+
+    //Provide a method which creates your own layout manager, it receives (layoutProvider, dimensions, isHorizontal, cachedLayouts) and should return an
+    //object extending BaseLayoutManager. Default is a staggered list implementation (LayoutManager). Changing this prop will cause a full relayout.
+    layoutManagerFactory: PropTypes.func,
+
+    //Indexes of items which should stick to the top (left in horizontal mode) once scrolled past, the next header pushes the current one out of the way.
+    //Pinned header is rendered using rowRenderer and layouts from layout manager. Indexes should be sorted in ascending order.
+    stickyHeaderIndices: PropTypes.arrayOf(PropTypes.number),
+
+    //Lays out items right to left. Rows are filled from the right and horizontal lists start at their right edge, offsets reported in onScroll and
+    //accepted by scroll methods are measured from the start i.e, the right edge. Changing this prop will cause a full relayout.
+    isRTL: PropTypes.bool,
+
+    //Bottom (right in horizontal mode) anchored lists for chat like screens. List opens scrolled to the end, content shorter than the window sticks to
+    //the end and distance from the end is maintained when data or size changes i.e, items added at the start don't move what's visible.
+    //All layouts get computed in this mode. Use onStartReached to load older items.
+    anchorToEnd: PropTypes.bool,
+
+    //Gaps between items and insets before the first and after the last row: { mainAxisGap, crossAxisGap, leadingInset, trailingInset }. Main axis is
+    //the scroll direction. Insets are part of the content size, footer is rendered before the trailing inset. Also passed to layoutManagerFactory.
+    //Only the default LayoutManager applies spacing, it's ignored by LinearLayoutManager, MasonryLayoutManager and TableLayoutManager.
+    //Changing this prop will cause a full relayout.
+    layoutSpacing: PropTypes.shape({
+        crossAxisGap: PropTypes.number,
+        leadingInset: PropTypes.number,
+        mainAxisGap: PropTypes.number,
+        trailingInset: PropTypes.number,
+    }),
+
+    //Virtualizes along both axes for spreadsheet like grids, content can scroll in both directions and only cells intersecting the window
+    //(plus render ahead offsets) are rendered. Needs a layout manager which places items beyond the window width e.g, TableLayoutManager.
+    //Should not be changed after mount.
+    isTwoDimensional: PropTypes.bool,
+
+    //Render ahead offset along the horizontal axis, falls back to renderAheadOffset. Only relevant in horizontal or two dimensional lists.
+    horizontalRenderAheadOffset: PropTypes.number,
+
+    //Render ahead offset along the vertical axis, falls back to renderAheadOffset. Only relevant in vertical or two dimensional lists.
+    verticalRenderAheadOffset: PropTypes.number,
+
+    //Built in selection, either single or multiple (default). Change it using select, deselect, toggleSelection, selectRange, selectAll and
+    //clearSelection methods which take indexes, rowRenderer gets isSelected as the last argument. Selection is kept by stable ids of the
+    //data provider so it survives data changes, only cells whose selection changed are re-rendered.
+    selectionMode: PropTypes.oneOf(["single", "multiple"]),
+
+    //Called with stable ids of all selected items whenever selection changes
+    onSelectionChanged: PropTypes.func,
 };
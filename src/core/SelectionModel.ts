@@ -0,0 +1,131 @@
+/***
+ * Selection state of RecyclerListView, keyed by stable ids of items (see DataProvider getStableId) so that selection survives data changes,
+ * filtering and recycling. Rows don't need to be mounted to be selected e.g, selectAll selects every item in the data provider.
+ * In single mode at most one item is selected. Anchor is the item last selected or toggled, range selection (shift click) spans from the anchor.
+ * Mutating methods return true if the selection has changed.
+ */
+export type SelectionMode = "single" | "multiple";
+
+export default class SelectionModel {
+    private _mode: SelectionMode;
+    private _selectedIds: { [id: string]: boolean } = {};
+    private _selectedCount: number = 0;
+    private _anchorId: string | null = null;
+
+    constructor(mode: SelectionMode = "multiple") {
+        this._mode = mode;
+    }
+
+    //Switching to single mode keeps only the anchor (or any one item if anchor isn't selected) selected
+    public setMode(mode: SelectionMode): boolean {
+        this._mode = mode;
+        if (mode === "single" && this._selectedCount > 1) {
+            const keptId = this._anchorId !== null && this.isSelected(this._anchorId) ? this._anchorId : this.getSelectedIds()[0];
+            this._clearAll();
+            this._add(keptId);
+            return true;
+        }
+        return false;
+    }
+
+    public getMode(): SelectionMode {
+        return this._mode;
+    }
+
+    public isSelected(id: string): boolean {
+        return this._selectedIds.hasOwnProperty(id);
+    }
+
+    public getSelectedIds(): string[] {
+        return Object.keys(this._selectedIds);
+    }
+
+    public getSelectedCount(): number {
+        return this._selectedCount;
+    }
+
+    public getAnchorId(): string | null {
+        return this._anchorId;
+    }
+
+    //Adds to selection in multiple mode, replaces it in single mode
+    public select(id: string): boolean {
+        this._anchorId = id;
+        if (this._mode === "single") {
+            if (this._selectedCount === 1 && this.isSelected(id)) {
+                return false;
+            }
+            this._clearAll();
+        }
+        return this._add(id);
+    }
+
+    public deselect(id: string): boolean {
+        if (this.isSelected(id)) {
+            delete this._selectedIds[id];
+            this._selectedCount--;
+            return true;
+        }
+        return false;
+    }
+
+    public toggle(id: string): boolean {
+        if (this.isSelected(id)) {
+            this._anchorId = id;
+            return this.deselect(id);
+        }
+        return this.select(id);
+    }
+
+    //Replaces selection with the given ids keeping the anchor, ids are expected to be in order from the anchor. Only the last id is selected in
+    //single mode.
+    public selectRange(ids: string[]): boolean {
+        if (this._mode === "single") {
+            return ids.length > 0 ? this.select(ids[ids.length - 1]) : false;
+        }
+        const anchorId = this._anchorId;
+        const hadSameSelection = ids.length === this._selectedCount && ids.every((id) => this.isSelected(id));
+        if (!hadSameSelection) {
+            this._clearAll();
+            for (const id of ids) {
+                this._add(id);
+            }
+        }
+        this._anchorId = anchorId;
+        return !hadSameSelection;
+    }
+
+    //Ignored in single mode
+    public selectAll(ids: string[]): boolean {
+        let hasChanged = false;
+        if (this._mode === "multiple") {
+            for (const id of ids) {
+                hasChanged = this._add(id) || hasChanged;
+            }
+        }
+        return hasChanged;
+    }
+
+    public clear(): boolean {
+        this._anchorId = null;
+        if (this._selectedCount > 0) {
+            this._clearAll();
+            return true;
+        }
+        return false;
+    }
+
+    private _add(id: string): boolean {
+        if (!this.isSelected(id)) {
+            this._selectedIds[id] = true;
+            this._selectedCount++;
+            return true;
+        }
+        return false;
+    }
+
+    private _clearAll(): void {
+        this._selectedIds = {};
+        this._selectedCount = 0;
+    }
+}
@@ -1,12 +1,19 @@
 import BinarySearch from "../utils/BinarySearch";
 import { Dimension } from "./dependencies/LayoutProvider";
-import { Rect } from "./layoutmanager/LayoutManager";
+import { Rect } from "./layoutmanager/BaseLayoutManager";
 /***
  * Given an offset this utility can compute visible items. Also tracks previously visible items to compute items which get hidden or visible
  * Virtual renderer uses callbacks from this utility to main recycle pool and the render stack.
  * The utility optimizes finding visible indexes by using the last visible items. However, that can be slow if scrollToOffset is explicitly called.
  * We use binary search to optimize in most cases like while finding first visible item or initial offset. In future we'll also be using BS to speed up
  * scroll to offset.
+ * Layouts need not be sorted by their offsets (e.g, masonry or staggered rows with mixed sizes). Running max of item ends and running min of item starts
+ * (from the end) are maintained so that scans can stop only when no further item can intersect the window.
+ * Layouts can also be computed lazily, onLayoutsRequired is called with the offset till which layouts are needed before windows are fitted.
+ * Layout managers that keep offsets in a searchable structure can answer onIndexForOffsetRequired instead of the binary search over layouts.
+ * If layout manager guarantees sorted layouts bounds are read directly from layouts instead.
+ * With cross axis tracking enabled (two dimensional lists) windows become rectangles, items also need to intersect the window along the cross axis.
+ * Scans still run along the main axis so items outside the cross window are skipped but not avoided, good enough for rows of a few hundred cells.
  */
 export interface Range {
     start: number;
@@ -14,11 +21,20 @@ export interface Range {
 }
 export type TOnItemStatusChanged = ((all: number[], now: number[], notNow: number[]) => void);
 
+//Should extend the layouts array in place and return the new max offset
+export type TOnLayoutsRequired = ((offset: number) => number);
+
+//Should return the first index whose layout ends after the offset, -1 to fall back to binary search over layouts
+export type TOnIndexForOffsetRequired = ((offset: number) => number);
+
 export default class ViewabilityTracker {
     public onVisibleRowsChanged: TOnItemStatusChanged | null;
     public onEngagedRowsChanged: TOnItemStatusChanged | null;
+    public onLayoutsRequired: TOnLayoutsRequired | null;
+    public onIndexForOffsetRequired: TOnIndexForOffsetRequired | null;
 
     private _currentOffset: number;
+    private _minOffset: number = 0;
     private _maxOffset: number;
     private _renderAheadOffset: number;
     private _visibleWindow: Range;
@@ -29,6 +45,17 @@ export default class ViewabilityTracker {
     private _visibleIndexes: number[];
     private _engagedIndexes: number[];
     private _layouts: Rect[] = [];
+    private _maxEndBounds: number[] = [];
+    private _minStartBounds: number[] = [];
+    private _areLayoutsSorted: boolean = false;
+
+    //Cross axis state, only used if cross axis tracking is enabled
+    private _isCrossAxisTracked: boolean = false;
+    private _currentCrossOffset: number = 0;
+    private _crossRenderAheadOffset: number = 0;
+    private _crossWindowBound: number = 0;
+    private _visibleCrossWindow: Range = { start: 0, end: 0 };
+    private _engagedCrossWindow: Range = { start: 0, end: 0 };
 
     constructor(renderAheadOffset: number, initialOffset: number) {
         this._currentOffset = Math.max(0, initialOffset);
@@ -45,6 +72,8 @@ export default class ViewabilityTracker {
 
         this.onVisibleRowsChanged = null;
         this.onEngagedRowsChanged = null;
+        this.onLayoutsRequired = null;
+        this.onIndexForOffsetRequired = null;
 
         this._relevantDim = { start: 0, end: 0 };
 
@@ -55,14 +84,31 @@ export default class ViewabilityTracker {
         this._doInitialFit(this._currentOffset);
     }
 
-    public setLayouts(layouts: Rect[], maxOffset: number): void {
+    //Expects dimensions to be set first since bounds depend on the orientation
+    public setLayouts(layouts: Rect[], maxOffset: number, areLayoutsSorted: boolean = false): void {
         this._layouts = layouts;
         this._maxOffset = maxOffset;
+        this._areLayoutsSorted = areLayoutsSorted;
+        this._computeBounds();
     }
 
     public setDimensions(dimension: Dimension, isHorizontal: boolean): void {
         this._isHorizontal = isHorizontal;
         this._windowBound = isHorizontal ? dimension.width : dimension.height;
+        this._crossWindowBound = isHorizontal ? dimension.height : dimension.width;
+    }
+
+    //Offsets can go below 0 till the given (negative) value, needed if something that isn't part of layouts e.g, list header sits before the first
+    //item. Windows are then partially before the first layout.
+    public setMinOffset(minOffset: number): void {
+        this._minOffset = Math.min(0, minOffset);
+    }
+
+    //Makes windows two dimensional, cross axis has its own render ahead offset. Should be called before init.
+    public enableCrossAxisTracking(crossRenderAheadOffset: number, initialCrossOffset: number = 0): void {
+        this._isCrossAxisTracked = true;
+        this._crossRenderAheadOffset = crossRenderAheadOffset;
+        this._currentCrossOffset = Math.max(0, initialCrossOffset);
     }
 
     public forceRefresh(): boolean {
@@ -76,10 +122,14 @@ export default class ViewabilityTracker {
         this.updateOffset(offset);
     }
 
-    public updateOffset(offset: number): void {
-        offset = Math.min(this._maxOffset, Math.max(0, offset));
-        if (this._currentOffset !== offset) {
+    //Cross offset is ignored unless cross axis tracking is enabled
+    public updateOffset(offset: number, crossOffset: number = this._currentCrossOffset): void {
+        this._requestLayouts(offset);
+        offset = Math.min(this._maxOffset, Math.max(this._minOffset, offset));
+        crossOffset = this._isCrossAxisTracked ? Math.max(0, crossOffset) : 0;
+        if (this._currentOffset !== offset || this._currentCrossOffset !== crossOffset) {
             this._currentOffset = offset;
+            this._currentCrossOffset = crossOffset;
             this._updateTrackingWindows(offset);
             let startIndex = 0;
             if (this._visibleIndexes.length > 0) {
@@ -89,11 +139,25 @@ export default class ViewabilityTracker {
         }
     }
 
+    //Items moved to other indexes e.g, after a data change with stable ids. Tracked indexes are translated without raising events so that the next
+    //refresh reports only actual visibility changes. Return -1 for items that don't exist anymore.
+    public remapIndexes(getNewIndex: (oldIndex: number) => number): void {
+        this._visibleIndexes = this._remapSortedIndexes(this._visibleIndexes, getNewIndex);
+        this._engagedIndexes = this._remapSortedIndexes(this._engagedIndexes, getNewIndex);
+    }
+
     public getLastOffset(): number {
         return this._currentOffset;
     }
 
+    public getLastCrossOffset(): number {
+        return this._currentCrossOffset;
+    }
+
     public findFirstLogicallyVisibleIndex(): number {
+        if (this._layouts.length === 0) {
+            return 0;
+        }
         const relevantIndex = this._findFirstVisibleIndexUsingBS(0.001);
         let result = relevantIndex;
         for (let i = relevantIndex - 1; i >= 0; i--) {
@@ -135,7 +199,8 @@ export default class ViewabilityTracker {
     }
 
     private _doInitialFit(offset: number): void {
-        offset = Math.min(this._maxOffset, Math.max(0, offset));
+        this._requestLayouts(offset);
+        offset = Math.min(this._maxOffset, Math.max(this._minOffset, offset));
         this._updateTrackingWindows(offset);
         const firstVisibleIndex = this._findFirstVisibleIndexOptimally();
         this._fitAndUpdate(firstVisibleIndex);
@@ -150,7 +215,7 @@ export default class ViewabilityTracker {
         for (let i = 0; i < count; i++) {
             itemRect = this._layouts[i];
             this._setRelevantBounds(itemRect, relevantDim);
-            if (this._itemIntersectsVisibleWindow(relevantDim.start, relevantDim.end)) {
+            if (this._itemIntersectsWindow(this._visibleWindow, relevantDim.start, relevantDim.end)) {
                 return i;
             }
         }
@@ -159,41 +224,91 @@ export default class ViewabilityTracker {
 
     private _findFirstVisibleIndexUsingBS(bias = 0): number {
         const count = this._layouts.length;
-        return BinarySearch.findClosestHigherValueIndex(count, this._visibleWindow.start + bias, this._valueExtractorForBinarySearch);
+        const offset = this._visibleWindow.start + bias;
+        let index = this.onIndexForOffsetRequired ? this.onIndexForOffsetRequired(offset) : -1;
+        if (index < 0) {
+            index = BinarySearch.findFirstHigherValueIndex(count, offset, this._valueExtractorForBinarySearch);
+        }
+        return Math.max(0, Math.min(index, count - 1));
     }
 
     private _valueExtractorForBinarySearch(index: number): number {
-        const itemRect = this._layouts[index];
-        this._setRelevantBounds(itemRect, this._relevantDim);
-        return this._relevantDim.end;
+        return this._getMaxEndBound(index);
+    }
+
+    private _getMaxEndBound(index: number): number {
+        if (this._areLayoutsSorted) {
+            this._setRelevantBounds(this._layouts[index], this._relevantDim);
+            return this._relevantDim.end;
+        }
+        return this._maxEndBounds[index];
+    }
+
+    private _getMinStartBound(index: number): number {
+        if (this._areLayoutsSorted) {
+            this._setRelevantBounds(this._layouts[index], this._relevantDim);
+            return this._relevantDim.start;
+        }
+        return this._minStartBounds[index];
+    }
+
+    //Layouts needed till the end of engaged window for the given offset. Layouts may also have been computed outside i.e, on demand, bounds are
+    //extended from where they were last computed.
+    private _requestLayouts(offset: number): void {
+        if (this.onLayoutsRequired) {
+            this._maxOffset = this.onLayoutsRequired(Math.max(0, offset) + this._windowBound + this._renderAheadOffset);
+            if (this._layouts.length !== this._maxEndBounds.length) {
+                this._computeBounds(Math.min(this._layouts.length, this._maxEndBounds.length));
+            }
+        }
     }
 
-    //TODO:Talha Optimize further in later revisions, alteast once logic can be replace with a BS lookup
+    //Bounds before fromIndex are assumed to be valid, min start bounds before it are updated only as far as they change
+    private _computeBounds(fromIndex: number = 0): void {
+        if (this._areLayoutsSorted) {
+            this._maxEndBounds.length = 0;
+            this._minStartBounds.length = 0;
+            return;
+        }
+        const count = this._layouts.length;
+        this._maxEndBounds.length = count;
+        this._minStartBounds.length = count;
+        let maxEnd = fromIndex > 0 ? this._maxEndBounds[fromIndex - 1] : 0;
+        let minStart = Number.MAX_VALUE;
+        for (let i = fromIndex; i < count; i++) {
+            this._setRelevantBounds(this._layouts[i], this._relevantDim);
+            maxEnd = Math.max(maxEnd, this._relevantDim.end);
+            this._maxEndBounds[i] = maxEnd;
+        }
+        for (let i = count - 1; i >= 0; i--) {
+            this._setRelevantBounds(this._layouts[i], this._relevantDim);
+            minStart = Math.min(minStart, this._relevantDim.start);
+            if (i < fromIndex && this._minStartBounds[i] <= minStart) {
+                break;
+            }
+            this._minStartBounds[i] = minStart;
+        }
+    }
+
+    //Scans stop once bounds guarantee that none of the remaining items can intersect the engaged window
     private _fitIndexes(newVisibleIndexes: number[], newEngagedIndexes: number[], startIndex: number, isReverse: boolean): void {
         const count = this._layouts.length;
         const relevantDim: Range = { start: 0, end: 0 };
         let i = 0;
-        let atLeastOneLocated = false;
         if (startIndex < count) {
             if (!isReverse) {
                 for (i = startIndex; i < count; i++) {
-                    if (this._checkIntersectionAndReport(i, false, relevantDim, newVisibleIndexes, newEngagedIndexes)) {
-                        atLeastOneLocated = true;
-                    } else {
-                        if (atLeastOneLocated) {
-                            break;
-                        }
+                    if (this._getMinStartBound(i) >= this._engagedWindow.end) {
+                        break;
                     }
+                    this._checkIntersectionAndReport(i, false, relevantDim, newVisibleIndexes, newEngagedIndexes);
                 }
             } else {
                 for (i = startIndex; i >= 0; i--) {
-                    if (this._checkIntersectionAndReport(i, true, relevantDim, newVisibleIndexes, newEngagedIndexes)) {
-                        atLeastOneLocated = true;
-                    } else {
-                        if (atLeastOneLocated) {
-                            break;
-                        }
+                    if (this._getMaxEndBound(i) <= this._engagedWindow.start) {
+                        break;
                     }
+                    this._checkIntersectionAndReport(i, true, relevantDim, newVisibleIndexes, newEngagedIndexes);
                 }
             }
         }
@@ -206,8 +321,7 @@ export default class ViewabilityTracker {
                                         newEngagedIndexes: number[]): boolean {
         const itemRect = this._layouts[index];
         let isFound = false;
-        this._setRelevantBounds(itemRect, relevantDim);
-        if (this._itemIntersectsVisibleWindow(relevantDim.start, relevantDim.end)) {
+        if (this._itemIntersectsVisibleWindow(itemRect, relevantDim)) {
             if (insertOnTop) {
                 newVisibleIndexes.splice(0, 0, index);
                 newEngagedIndexes.splice(0, 0, index);
@@ -216,7 +330,7 @@ export default class ViewabilityTracker {
                 newEngagedIndexes.push(index);
             }
             isFound = true;
-        } else if (this._itemIntersectsEngagedWindow(relevantDim.start, relevantDim.end)) {
+        } else if (this._itemIntersectsEngagedWindow(itemRect, relevantDim)) {
             //TODO: This needs to be optimized
             if (insertOnTop) {
                 newEngagedIndexes.splice(0, 0, index);
@@ -239,6 +353,16 @@ export default class ViewabilityTracker {
         }
     }
 
+    private _setCrossBounds(itemRect: Rect, crossDim: Range): void {
+        if (this._isHorizontal) {
+            crossDim.end = itemRect.y + itemRect.height;
+            crossDim.start = itemRect.y;
+        } else {
+            crossDim.end = itemRect.x + itemRect.width;
+            crossDim.start = itemRect.x;
+        }
+    }
+
     private _isItemInBounds(window: Range, itemBound: number): boolean {
         return (window.start < itemBound && window.end > itemBound);
     }
@@ -253,12 +377,25 @@ export default class ViewabilityTracker {
             this._isItemBoundsBeyondWindow(window, startBound, endBound);
     }
 
-    private _itemIntersectsEngagedWindow(startBound: number, endBound: number): boolean {
-        return this._itemIntersectsWindow(this._engagedWindow, startBound, endBound);
+    //Given range is used as scratch space for bounds of the item
+    private _itemIntersectsEngagedWindow(itemRect: Rect, dim: Range): boolean {
+        return this._itemIntersectsRectWindow(itemRect, dim, this._engagedWindow, this._engagedCrossWindow);
     }
 
-    private _itemIntersectsVisibleWindow(startBound: number, endBound: number): boolean {
-        return this._itemIntersectsWindow(this._visibleWindow, startBound, endBound);
+    private _itemIntersectsVisibleWindow(itemRect: Rect, dim: Range): boolean {
+        return this._itemIntersectsRectWindow(itemRect, dim, this._visibleWindow, this._visibleCrossWindow);
+    }
+
+    private _itemIntersectsRectWindow(itemRect: Rect, dim: Range, window: Range, crossWindow: Range): boolean {
+        this._setRelevantBounds(itemRect, dim);
+        if (!this._itemIntersectsWindow(window, dim.start, dim.end)) {
+            return false;
+        }
+        if (this._isCrossAxisTracked) {
+            this._setCrossBounds(itemRect, dim);
+            return this._itemIntersectsWindow(crossWindow, dim.start, dim.end);
+        }
+        return true;
     }
 
     private _updateTrackingWindows(newOffset: number): void {
@@ -267,6 +404,29 @@ export default class ViewabilityTracker {
 
         this._visibleWindow.start = newOffset;
         this._visibleWindow.end = newOffset + this._windowBound;
+
+        if (this._isCrossAxisTracked) {
+            const crossOffset = this._currentCrossOffset;
+            this._engagedCrossWindow.start = Math.max(0, crossOffset - this._crossRenderAheadOffset);
+            this._engagedCrossWindow.end = crossOffset + this._crossWindowBound + this._crossRenderAheadOffset;
+
+            this._visibleCrossWindow.start = crossOffset;
+            this._visibleCrossWindow.end = crossOffset + this._crossWindowBound;
+        }
+    }
+
+    private _remapSortedIndexes(indexes: number[], getNewIndex: (oldIndex: number) => number): number[] {
+        const result: number[] = [];
+        const count = indexes.length;
+        let newIndex = 0;
+        for (let i = 0; i < count; i++) {
+            newIndex = getNewIndex(indexes[i]);
+            if (newIndex >= 0) {
+                result.push(newIndex);
+            }
+        }
+        result.sort((a, b) => a - b);
+        return result.filter((index, i) => i === 0 || result[i - 1] !== index);
     }
 
     //TODO:Talha optimize this
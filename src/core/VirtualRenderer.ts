@@ -1,8 +1,10 @@
 import RecycleItemPool from "../utils/RecycleItemPool";
+import DataChangeSet from "./dependencies/DataChangeSet";
+import DataProvider from "./dependencies/DataProvider";
 import { default as LayoutProvider, Dimension } from "./dependencies/LayoutProvider";
 import CustomError from "./exceptions/CustomError";
 import RecyclerListViewExceptions from "./exceptions/RecyclerListViewExceptions";
-import LayoutManager, { Point } from "./layoutmanager/LayoutManager";
+import BaseLayoutManager, { Point } from "./layoutmanager/BaseLayoutManager";
 import ViewabilityTracker, { TOnItemStatusChanged } from "./ViewabilityTracker";
 import { ObjectUtil, Default } from "ts-object-utils";
 import TSCast from "../utils/TSCast";
@@ -23,11 +25,17 @@ export interface RenderStackParams {
     initialOffset?: number;
     initialRenderIndex?: number;
     renderAheadOffset?: number;
+    anchorToEnd?: boolean;
+
+    //Virtualizes along both axes, renderAheadOffset applies to the main axis and crossRenderAheadOffset to the other one
+    isTwoDimensional?: boolean;
+    crossRenderAheadOffset?: number;
 }
 
 export default class VirtualRenderer {
 
     public onVisibleItemsChanged: TOnItemStatusChanged | null;
+    public onEngagedItemsChanged: TOnItemStatusChanged | null;
 
     private _scrollOnNextUpdate: (point: Point) => void;
     private _renderStackIndexKeyMap: { [key: number]: number };
@@ -40,9 +48,10 @@ export default class VirtualRenderer {
     private _recyclePool: RecycleItemPool = TSCast.cast<RecycleItemPool>(null); //TSI
 
     private _params: RenderStackParams | null;
-    private _layoutManager: LayoutManager | null = null;
+    private _layoutManager: BaseLayoutManager | null = null;
     private _viewabilityTracker: ViewabilityTracker | null = null;
     private _dimensions: Dimension | null;
+    private _minOffset: number = 0;
 
     constructor(renderStackChanged: (renderStack: RenderStack) => void, scrollOnNextUpdate: (point: Point) => void, isRecyclingEnabled: boolean) {
         //Keeps track of items that need to be rendered in the next render cycle
@@ -62,8 +71,11 @@ export default class VirtualRenderer {
         this._startKey = 0;
 
         this.onVisibleItemsChanged = null;
+        this.onEngagedItemsChanged = null;
         this._onEngagedItemsChanged = this._onEngagedItemsChanged.bind(this);
         this._onVisibleItemsChanged = this._onVisibleItemsChanged.bind(this);
+        this._onLayoutsRequired = this._onLayoutsRequired.bind(this);
+        this._onIndexForOffsetRequired = this._onIndexForOffsetRequired.bind(this);
     }
 
     public getLayoutDimension(): Dimension {
@@ -79,9 +91,9 @@ export default class VirtualRenderer {
                 this.startViewabilityTracker();
             }
             if (this._params && this._params.isHorizontal) {
-                this._viewabilityTracker.updateOffset(offsetX);
+                this._viewabilityTracker.updateOffset(offsetX, offsetY);
             } else {
-                this._viewabilityTracker.updateOffset(offsetY);
+                this._viewabilityTracker.updateOffset(offsetY, offsetX);
             }
         }
     }
@@ -98,7 +110,12 @@ export default class VirtualRenderer {
         }
     }
 
-    public getLayoutManager(): LayoutManager | null {
+    //Engaged items are the ones being rendered i.e, visible ones plus render ahead, data for them is required soon
+    public attachEngagedItemsListener(callback: TOnItemStatusChanged): void {
+        this.onEngagedItemsChanged = callback;
+    }
+
+    public getLayoutManager(): BaseLayoutManager | null {
         return this._layoutManager;
     }
 
@@ -107,13 +124,22 @@ export default class VirtualRenderer {
         this._dimensions = dim;
     }
 
-    public setLayoutManager(layoutManager: LayoutManager): void {
+    public setLayoutManager(layoutManager: BaseLayoutManager): void {
         this._layoutManager = layoutManager;
         if (this._params) {
             this._layoutManager.reLayoutFromIndex(0, this._params.itemCount);
         }
     }
 
+    //Space taken by content rendered before the first item e.g, list header. Offsets passed to updateOffset are relative to the first item and can
+    //be negative by this much.
+    public setLeadingSpace(size: number): void {
+        this._minOffset = -size;
+        if (this._viewabilityTracker) {
+            this._viewabilityTracker.setMinOffset(this._minOffset);
+        }
+    }
+
     public setLayoutProvider(layoutProvider: LayoutProvider): void {
         this._layoutProvider = layoutProvider;
     }
@@ -122,12 +148,34 @@ export default class VirtualRenderer {
         return this._viewabilityTracker;
     }
 
+    //Cells stay bound to their items across inserts, deletes and moves i.e, a moved item is only re-laid out and keeps its local state. Cells of
+    //removed items are released to the recycle pool and rendered again only once re-bound. Should be called before refreshing with the new data.
+    public rebindByStableIds(oldDataProvider: DataProvider, newDataProvider: DataProvider): void {
+        const oldSize = oldDataProvider.getSize();
+        const newIndexes: { [oldIndex: number]: number } = {};
+        this._rebindCells((oldIndex: number): number => {
+            if (!newIndexes.hasOwnProperty(oldIndex.toString())) {
+                newIndexes[oldIndex] = oldIndex < oldSize ? newDataProvider.getIndexForStableId(oldDataProvider.getStableId(oldIndex)) : -1;
+            }
+            return newIndexes[oldIndex];
+        });
+    }
+
+    //Same as rebindByStableIds when the data provider knows exactly what changed, cells of unaffected items aren't re-rendered
+    public applyChangeSet(changeSet: DataChangeSet): void {
+        this._rebindCells((oldIndex: number): number => changeSet.getNewIndex(oldIndex));
+    }
+
     public refreshWithAnchor(): void {
         if (this._viewabilityTracker) {
             const firstVisibleIndex = this._viewabilityTracker.findFirstLogicallyVisibleIndex();
+            const lastOffset = this._viewabilityTracker.getLastOffset();
             this._prepareViewabilityTracker();
             let offset = 0;
-            if (this._layoutManager && this._params) {
+            if (lastOffset < 0) {
+                //Leading space is in view, nothing before the first item moves so current offset is kept
+                offset = lastOffset;
+            } else if (this._layoutManager && this._params) {
                 const point = this._layoutManager.getOffsetForIndex(firstVisibleIndex);
                 this._scrollOnNextUpdate(point);
                 offset = this._params.isHorizontal ? point.x : point.y;
@@ -136,6 +184,36 @@ export default class VirtualRenderer {
         }
     }
 
+    //Keeps the start of visible window at the same distance from the start of given item after a relayout, size changes of items before it
+    //don't move what's visible.
+    public refreshWithItemAnchor(index: number, distanceFromItem: number): void {
+        if (this._viewabilityTracker && this._layoutManager && this._params) {
+            this._prepareViewabilityTracker();
+            const point = this._layoutManager.getOffsetForIndex(index);
+            const offset = (this._params.isHorizontal ? point.x : point.y) + distanceFromItem;
+            this._scrollOnNextUpdate(this._params.isHorizontal ? { x: offset, y: 0 } : { x: 0, y: offset });
+            this._viewabilityTracker.forceRefreshWithOffset(offset);
+        }
+    }
+
+    //Distance between the end of visible window and the end of content. Computes all pending layouts, used to anchor lists to their end.
+    public getDistanceFromEnd(): number {
+        if (this._viewabilityTracker) {
+            return Math.max(0, this._getEndOffset() - this._viewabilityTracker.getLastOffset());
+        }
+        return 0;
+    }
+
+    //Like refreshWithAnchor but keeps the distance from the end same, content added or removed before the visible window doesn't move it
+    public refreshWithEndAnchor(distanceFromEnd: number): void {
+        if (this._viewabilityTracker && this._params) {
+            const offset = Math.max(0, this._getEndOffset() - distanceFromEnd);
+            this._prepareViewabilityTracker();
+            this._scrollOnNextUpdate(this._params.isHorizontal ? { x: offset, y: 0 } : { x: 0, y: offset });
+            this._viewabilityTracker.forceRefreshWithOffset(offset);
+        }
+    }
+
     public refresh(): void {
         if (this._viewabilityTracker) {
             this._prepareViewabilityTracker();
@@ -156,6 +234,13 @@ export default class VirtualRenderer {
             if (initialRenderIndex > 0 && this._layoutManager) {
                 offset = this._layoutManager.getOffsetForIndex(initialRenderIndex);
                 this._params.initialOffset = this._params.isHorizontal ? offset.x : offset.y;
+            } else if (this._params.anchorToEnd && !this._params.initialOffset) {
+                this._params.initialOffset = Math.max(0, this._getEndOffset());
+                if (this._params.isHorizontal) {
+                    offset.x = this._params.initialOffset;
+                } else {
+                    offset.y = this._params.initialOffset;
+                }
             } else {
                 if (this._params.isHorizontal) {
                     offset.x = Default.value<number>(this._params.initialOffset, 0);
@@ -176,9 +261,13 @@ export default class VirtualRenderer {
             this._viewabilityTracker = new ViewabilityTracker(
                 Default.value<number>(this._params.renderAheadOffset, 0),
                 Default.value<number>(this._params.initialOffset, 0));
+            if (this._params.isTwoDimensional) {
+                this._viewabilityTracker.enableCrossAxisTracking(Default.value<number>(this._params.crossRenderAheadOffset, 0));
+            }
         } else {
             this._viewabilityTracker = new ViewabilityTracker(0, 0);
         }
+        this._viewabilityTracker.setMinOffset(this._minOffset);
         this._prepareViewabilityTracker();
     }
 
@@ -189,6 +278,16 @@ export default class VirtualRenderer {
         }
     }
 
+    //Offset at which the end of visible window meets the end of content, can be negative if content is shorter than the window
+    private _getEndOffset(): number {
+        if (this._layoutManager && this._dimensions && this._params) {
+            this._layoutManager.ensureLayoutsUntilOffset(Number.MAX_VALUE);
+            const dimension = this._layoutManager.getLayoutDimension();
+            return this._params.isHorizontal ? dimension.width - this._dimensions.width : dimension.height - this._dimensions.height;
+        }
+        return 0;
+    }
+
     private _getNewKey(): number {
         return this._startKey++;
     }
@@ -196,21 +295,36 @@ export default class VirtualRenderer {
     private _prepareViewabilityTracker(): void {
         if (this._viewabilityTracker && this._layoutManager && this._dimensions && this._params) {
             this._viewabilityTracker.onEngagedRowsChanged = this._onEngagedItemsChanged;
+            this._viewabilityTracker.onLayoutsRequired = this._onLayoutsRequired;
+            this._viewabilityTracker.onIndexForOffsetRequired = this._onIndexForOffsetRequired;
             if (this.onVisibleItemsChanged) {
                 this._viewabilityTracker.onVisibleRowsChanged = this._onVisibleItemsChanged;
             }
-            this._viewabilityTracker.setLayouts(this._layoutManager.getLayouts(), this._params.isHorizontal ?
-                this._layoutManager.getLayoutDimension().width :
-                this._layoutManager.getLayoutDimension().height);
             this._viewabilityTracker.setDimensions({
                 height: this._dimensions.height,
                 width: this._dimensions.width,
             }, Default.value<boolean>(this._params.isHorizontal, false));
+            this._viewabilityTracker.setLayouts(this._layoutManager.getLayouts(), this._params.isHorizontal ?
+                this._layoutManager.getLayoutDimension().width :
+                this._layoutManager.getLayoutDimension().height, this._layoutManager.areLayoutsSorted());
         } else {
             throw new CustomError(RecyclerListViewExceptions.initializationException);
         }
     }
 
+    private _onIndexForOffsetRequired(offset: number): number {
+        return this._layoutManager ? this._layoutManager.findIndexForOffset(offset) : -1;
+    }
+
+    private _onLayoutsRequired(offset: number): number {
+        if (this._layoutManager) {
+            this._layoutManager.ensureLayoutsUntilOffset(offset);
+            const dimension = this._layoutManager.getLayoutDimension();
+            return this._params && this._params.isHorizontal ? dimension.width : dimension.height;
+        }
+        return 0;
+    }
+
     private _onVisibleItemsChanged(all: number[], now: number[], notNow: number[]): void {
         if (this.onVisibleItemsChanged) {
             this.onVisibleItemsChanged(all, now, notNow);
@@ -218,6 +332,9 @@ export default class VirtualRenderer {
     }
 
     private _onEngagedItemsChanged(all: number[], now: number[], notNow: number[]): void {
+        if (this.onEngagedItemsChanged) {
+            this.onEngagedItemsChanged(all, now, notNow);
+        }
         const count = notNow.length;
         let resolvedIndex = 0;
         let disengagedIndex = 0;
@@ -243,6 +360,31 @@ export default class VirtualRenderer {
         }
     }
 
+    private _rebindCells(getNewIndex: (oldIndex: number) => number): void {
+        const newIndexKeyMap: { [key: number]: number } = {};
+        for (const key in this._renderStack) {
+            if (this._renderStack.hasOwnProperty(key)) {
+                const itemMeta = this._renderStack[key];
+                if (!ObjectUtil.isNullOrUndefined(itemMeta.dataIndex) && itemMeta.key !== undefined) {
+                    const newIndex = getNewIndex(itemMeta.dataIndex);
+                    if (newIndex >= 0 && !newIndexKeyMap.hasOwnProperty(newIndex.toString())) {
+                        itemMeta.dataIndex = newIndex;
+                        newIndexKeyMap[newIndex] = itemMeta.key;
+                    } else {
+                        itemMeta.dataIndex = undefined;
+                        if (this._isRecyclingEnabled) {
+                            this._recyclePool.putRecycledObject(itemMeta.type !== undefined ? itemMeta.type : 0, itemMeta.key);
+                        }
+                    }
+                }
+            }
+        }
+        this._renderStackIndexKeyMap = newIndexKeyMap;
+        if (this._viewabilityTracker) {
+            this._viewabilityTracker.remapIndexes(getNewIndex);
+        }
+    }
+
     //Updates render stack and reports whether anything has changed
     private _updateRenderStack(itemIndexes: number[]): boolean {
         const count = itemIndexes.length;
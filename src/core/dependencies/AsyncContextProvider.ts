@@ -0,0 +1,19 @@
+/***
+ * Promise based variant of ContextProvider for storages like AsyncStorage on React Native or IndexedDB on web.
+ * RecyclerListView waits for saved offset (and cached layouts in non deterministic mode) to resolve before it starts rendering items, renderLoading
+ * is shown meanwhile if provided. Saves on unmount aren't awaited, they complete in the background.
+ * Failed reads are treated as missing values.
+ */
+export default abstract class AsyncContextProvider {
+    //Should be of string type, anything which is unique in global scope of your application
+    public abstract getUniqueKey(): string;
+
+    //Let recycler view save a value
+    public abstract save(key: string, value: string | number): Promise<void>;
+
+    //Get value for a key, resolve with null or undefined if there is nothing saved
+    public abstract get(key: string): Promise<string | number | null | undefined>;
+
+    //Remove key value pair
+    public abstract remove(key: string): Promise<void>;
+}
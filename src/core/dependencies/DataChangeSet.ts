@@ -0,0 +1,336 @@
+/***
+ * Describes how items of a data provider relate to items of the provider it was cloned from: ranges of inserted, removed and updated items and
+ * individual moves. Change sets are built either by diffing stable ids in cloneWithRows or by explicit clone calls like cloneWithInsertedRows.
+ * Layout managers and VirtualRenderer use the old to new index mapping to shift layouts and cell keys instead of recomputing everything after
+ * the first changed index, only inserted and updated items have to be laid out and rendered again.
+ * Indexes of insertions, updates and move targets refer to the new provider, removals and move sources to the old one.
+ * Mapping is stored as segments i.e, runs of new items which are either inserted or kept from consecutive old items, so size of a change set
+ * depends on the number of changes and not on the number of items. Lookups are binary searches over segments.
+ */
+export interface IndexRange {
+    index: number;
+    count: number;
+}
+export interface ItemMove {
+    fromIndex: number;
+    toIndex: number;
+}
+
+//Run of consecutive new items, inserted if oldIndex is -1 otherwise kept from count consecutive old items starting at oldIndex
+export interface IndexSegment {
+    oldIndex: number;
+    count: number;
+}
+
+export default class DataChangeSet {
+    public static forInsert(oldSize: number, index: number, count: number): DataChangeSet {
+        return new DataChangeSet([{ oldIndex: 0, count: index }, { oldIndex: -1, count }, { oldIndex: index, count: oldSize - index }], oldSize, []);
+    }
+
+    public static forRemove(oldSize: number, index: number, count: number): DataChangeSet {
+        return new DataChangeSet([{ oldIndex: 0, count: index }, { oldIndex: index + count, count: oldSize - index - count }], oldSize, []);
+    }
+
+    public static forMove(oldSize: number, fromIndex: number, toIndex: number): DataChangeSet {
+        const segments = fromIndex < toIndex ?
+            [{ oldIndex: 0, count: fromIndex }, { oldIndex: fromIndex + 1, count: toIndex - fromIndex }, { oldIndex: fromIndex, count: 1 }] :
+            [{ oldIndex: 0, count: toIndex }, { oldIndex: fromIndex, count: 1 }, { oldIndex: toIndex, count: fromIndex - toIndex }];
+        segments.push({ oldIndex: Math.max(fromIndex, toIndex) + 1, count: oldSize - Math.max(fromIndex, toIndex) - 1 });
+        return new DataChangeSet(segments, oldSize, []);
+    }
+
+    public static forUpdate(oldSize: number, index: number, count: number): DataChangeSet {
+        return new DataChangeSet([{ oldIndex: 0, count: oldSize }], oldSize, [{ index, count }]);
+    }
+
+    //For diffs, oldIndexes holds the old index of every new item (-1 if inserted), updatedIndexes are sorted new indexes of items whose data changed
+    public static fromOldIndexes(oldIndexes: number[], oldSize: number, updatedIndexes: number[]): DataChangeSet {
+        const segments: IndexSegment[] = [];
+        const updates: IndexRange[] = [];
+        let lastSegment: IndexSegment | null = null;
+        for (const oldIndex of oldIndexes) {
+            if (lastSegment && (oldIndex < 0 ? lastSegment.oldIndex < 0 : lastSegment.oldIndex >= 0 &&
+                lastSegment.oldIndex + lastSegment.count === oldIndex)) {
+                lastSegment.count++;
+            } else {
+                lastSegment = { oldIndex: oldIndex < 0 ? -1 : oldIndex, count: 1 };
+                segments.push(lastSegment);
+            }
+        }
+        for (const index of updatedIndexes) {
+            updates.push({ index, count: 1 });
+        }
+        return new DataChangeSet(segments, oldSize, updates);
+    }
+
+    private _oldSize: number;
+    private _newSize: number;
+    private _segments: IndexSegment[] = [];
+    private _segmentStarts: number[] = [];
+    private _updates: IndexRange[] = [];
+
+    //Segment indexes of kept segments sorted by their old index, built on first old to new lookup
+    private _keptSegmentsByOldIndex: number[] | null = null;
+    private _firstChangedIndex: number = -1;
+    private _unchangedEndCount: number = -1;
+    private _moves: ItemMove[] | null = null;
+
+    //Segments are in new index order and cover every new item, updates are sorted ranges of new indexes. Empty segments are dropped and adjacent ones
+    //merged.
+    constructor(segments: IndexSegment[], oldSize: number, updates: IndexRange[]) {
+        this._oldSize = oldSize;
+        let newSize = 0;
+        let lastSegment: IndexSegment | null = null;
+        for (const segment of segments) {
+            if (segment.count > 0) {
+                if (lastSegment && (segment.oldIndex < 0 ? lastSegment.oldIndex < 0 : lastSegment.oldIndex >= 0 &&
+                    lastSegment.oldIndex + lastSegment.count === segment.oldIndex)) {
+                    lastSegment.count += segment.count;
+                } else {
+                    lastSegment = { oldIndex: segment.oldIndex < 0 ? -1 : segment.oldIndex, count: segment.count };
+                    this._segments.push(lastSegment);
+                    this._segmentStarts.push(newSize);
+                }
+                newSize += segment.count;
+            }
+        }
+        this._newSize = newSize;
+        let lastUpdate: IndexRange | null = null;
+        for (const update of updates) {
+            if (update.count > 0) {
+                if (lastUpdate && lastUpdate.index + lastUpdate.count >= update.index) {
+                    lastUpdate.count = Math.max(lastUpdate.count, update.index + update.count - lastUpdate.index);
+                } else {
+                    lastUpdate = { index: update.index, count: update.count };
+                    this._updates.push(lastUpdate);
+                }
+            }
+        }
+    }
+
+    public getOldSize(): number {
+        return this._oldSize;
+    }
+
+    public getNewSize(): number {
+        return this._newSize;
+    }
+
+    //-1 if the item was removed
+    public getNewIndex(oldIndex: number): number {
+        const keptSegments = this._getKeptSegmentsByOldIndex();
+        let low = 0;
+        let high = keptSegments.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this._segments[keptSegments[mid]].oldIndex <= oldIndex) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        if (low === 0) {
+            return -1;
+        }
+        const segmentIndex = keptSegments[low - 1];
+        const segment = this._segments[segmentIndex];
+        return oldIndex < segment.oldIndex + segment.count ? this._segmentStarts[segmentIndex] + oldIndex - segment.oldIndex : -1;
+    }
+
+    //-1 if the item was inserted
+    public getOldIndex(newIndex: number): number {
+        if (newIndex < 0 || newIndex >= this._newSize) {
+            return -1;
+        }
+        const segmentIndex = this._findSegment(newIndex);
+        const segment = this._segments[segmentIndex];
+        return segment.oldIndex >= 0 ? segment.oldIndex + newIndex - this._segmentStarts[segmentIndex] : -1;
+    }
+
+    public isUpdated(newIndex: number): boolean {
+        let low = 0;
+        let high = this._updates.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this._updates[mid].index <= newIndex) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low > 0 && newIndex < this._updates[low - 1].index + this._updates[low - 1].count;
+    }
+
+    public getInsertions(): IndexRange[] {
+        const insertions: IndexRange[] = [];
+        const count = this._segments.length;
+        for (let i = 0; i < count; i++) {
+            if (this._segments[i].oldIndex < 0) {
+                insertions.push({ index: this._segmentStarts[i], count: this._segments[i].count });
+            }
+        }
+        return insertions;
+    }
+
+    public getRemovals(): IndexRange[] {
+        const removals: IndexRange[] = [];
+        let nextOldIndex = 0;
+        for (const segmentIndex of this._getKeptSegmentsByOldIndex()) {
+            const segment = this._segments[segmentIndex];
+            if (segment.oldIndex > nextOldIndex) {
+                removals.push({ index: nextOldIndex, count: segment.oldIndex - nextOldIndex });
+            }
+            nextOldIndex = segment.oldIndex + segment.count;
+        }
+        if (this._oldSize > nextOldIndex) {
+            removals.push({ index: nextOldIndex, count: this._oldSize - nextOldIndex });
+        }
+        return removals;
+    }
+
+    public getUpdates(): IndexRange[] {
+        return this._updates.map((update) => ({ index: update.index, count: update.count }));
+    }
+
+    //Smallest set of items that need to move so that all the others keep their relative order
+    public getMoves(): ItemMove[] {
+        if (!this._moves) {
+            const stayingSegments = this._findStayingSegments();
+            const count = this._segments.length;
+            this._moves = [];
+            for (let i = 0; i < count; i++) {
+                const segment = this._segments[i];
+                if (segment.oldIndex >= 0 && !stayingSegments[i]) {
+                    for (let j = 0; j < segment.count; j++) {
+                        this._moves.push({ fromIndex: segment.oldIndex + j, toIndex: this._segmentStarts[i] + j });
+                    }
+                }
+            }
+        }
+        return this._moves;
+    }
+
+    public isEmpty(): boolean {
+        return this.getFirstChangedIndex() === this._newSize && this._oldSize === this._newSize;
+    }
+
+    //Items before this index are unchanged and at the same position
+    public getFirstChangedIndex(): number {
+        if (this._firstChangedIndex < 0) {
+            const firstSegment = this._segments[0];
+            this._firstChangedIndex = firstSegment && firstSegment.oldIndex === 0 ? firstSegment.count : 0;
+            if (this._updates.length > 0) {
+                this._firstChangedIndex = Math.min(this._firstChangedIndex, this._updates[0].index);
+            }
+        }
+        return this._firstChangedIndex;
+    }
+
+    //Number of items at the end which are unchanged and have the same distance from the end
+    public getUnchangedEndCount(): number {
+        if (this._unchangedEndCount < 0) {
+            const lastSegment = this._segments[this._segments.length - 1];
+            let count = lastSegment && lastSegment.oldIndex >= 0 && lastSegment.oldIndex + lastSegment.count === this._oldSize ? lastSegment.count : 0;
+            if (this._updates.length > 0) {
+                const lastUpdate = this._updates[this._updates.length - 1];
+                count = Math.min(count, this._newSize - lastUpdate.index - lastUpdate.count);
+            }
+            this._unchangedEndCount = Math.max(0, Math.min(count, Math.min(this._newSize, this._oldSize) - this.getFirstChangedIndex()));
+        }
+        return this._unchangedEndCount;
+    }
+
+    //Moves values (e.g, layouts) of surviving items to their new indexes, inserted items get undefined. Values before startIndex are copied as is.
+    public shiftItems<T>(items: Array<T | undefined>, startIndex: number): Array<T | undefined> {
+        const result = items.slice(0, startIndex);
+        const count = this._segments.length;
+        for (let i = 0; i < count; i++) {
+            const segment = this._segments[i];
+            const start = this._segmentStarts[i];
+            for (let j = Math.max(start, startIndex); j < start + segment.count; j++) {
+                result[j] = segment.oldIndex >= 0 ? items[segment.oldIndex + j - start] : undefined;
+            }
+        }
+        return result;
+    }
+
+    //Index of the segment containing the new index
+    private _findSegment(newIndex: number): number {
+        let low = 0;
+        let high = this._segmentStarts.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this._segmentStarts[mid] <= newIndex) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low - 1;
+    }
+
+    private _getKeptSegmentsByOldIndex(): number[] {
+        if (!this._keptSegmentsByOldIndex) {
+            const keptSegments: number[] = [];
+            const count = this._segments.length;
+            for (let i = 0; i < count; i++) {
+                if (this._segments[i].oldIndex >= 0) {
+                    keptSegments.push(i);
+                }
+            }
+            keptSegments.sort((a, b) => this._segments[a].oldIndex - this._segments[b].oldIndex);
+            this._keptSegmentsByOldIndex = keptSegments;
+        }
+        return this._keptSegmentsByOldIndex;
+    }
+
+    //Kept segments in the increasing subsequence of old indexes with the most items, i.e the fewest items need to move. O(s log s) for s segments,
+    //a Fenwick tree over old index ranks keeps the best subsequence ending below each rank.
+    private _findStayingSegments(): { [segmentIndex: number]: boolean } {
+        const keptSegments = this._getKeptSegmentsByOldIndex();
+        const rankCount = keptSegments.length;
+        const ranks: { [segmentIndex: number]: number } = {};
+        for (let i = 0; i < rankCount; i++) {
+            ranks[keptSegments[i]] = i + 1;
+        }
+        const treeItemCounts: number[] = [];
+        const treeSegments: number[] = [];
+        for (let i = 0; i <= rankCount; i++) {
+            treeItemCounts.push(0);
+            treeSegments.push(-1);
+        }
+        const previous: { [segmentIndex: number]: number } = {};
+        let lastSegment = -1;
+        let maxItemCount = 0;
+        const count = this._segments.length;
+        for (let i = 0; i < count; i++) {
+            if (this._segments[i].oldIndex >= 0) {
+                let bestItemCount = 0;
+                let bestSegment = -1;
+                for (let r = ranks[i] - 1; r > 0; r -= r & -r) {
+                    if (treeItemCounts[r] > bestItemCount) {
+                        bestItemCount = treeItemCounts[r];
+                        bestSegment = treeSegments[r];
+                    }
+                }
+                previous[i] = bestSegment;
+                const itemCount = bestItemCount + this._segments[i].count;
+                for (let r = ranks[i]; r <= rankCount; r += r & -r) {
+                    if (itemCount > treeItemCounts[r]) {
+                        treeItemCounts[r] = itemCount;
+                        treeSegments[r] = i;
+                    }
+                }
+                if (itemCount > maxItemCount) {
+                    maxItemCount = itemCount;
+                    lastSegment = i;
+                }
+            }
+        }
+        const stayingSegments: { [segmentIndex: number]: boolean } = {};
+        for (let i = lastSegment; i >= 0; i = previous[i]) {
+            stayingSegments[i] = true;
+        }
+        return stayingSegments;
+    }
+}
@@ -1,20 +1,60 @@
+import DataChangeSet from "./DataChangeSet";
+
 /***
  * You can create a new instance or inherit and override default methods
  * Allows access to data and size. Clone with rows creates a new data provider and let listview know where to calculate row layout from.
+ * Provide getStableId to identify items across data changes e.g, by their server ids, index is used as id by default.
+ * With stable ids cells stay bound to their items across inserts, deletes and moves so cell state is preserved and ItemAnimator can animate moves.
+ * Clones carry a DataChangeSet describing what changed relative to the provider they were cloned from. With stable ids cloneWithRows diffs ids,
+ * otherwise use cloneWithInsertedRows, cloneWithRemovedRows, cloneWithMovedRow or cloneWithUpdatedRows so that only affected items are re-laid out.
  */
 export default class DataProvider {
+    private static _nextVersion: number = 0;
+
     public rowHasChanged: (r1: any, r2: any) => boolean;
-    private _firstIndexToProcess: number = 0;
-    private _size: number = 0;
-    private _data: any[] = [];
+    protected _getStableId?: (data: any, index: number) => string;
+    protected _firstIndexToProcess: number = 0;
+    protected _unchangedEndCount: number = 0;
+    protected _size: number = 0;
+    protected _data: any[] = [];
+    protected _changeSet: DataChangeSet | null = null;
+    protected _changeSetBaseVersion: number = -1;
+    private _stableIdIndexMap: { [id: string]: number } | null = null;
+    private _version: number = DataProvider._nextVersion++;
 
-    constructor(rowHasChanged: (r1: any, r2: any) => boolean) {
+    constructor(rowHasChanged: (r1: any, r2: any) => boolean, getStableId?: (data: any, index: number) => string) {
         this.rowHasChanged = rowHasChanged;
+        this._getStableId = getStableId;
     }
     public getDataForIndex(index: number): any {
         return this._data[index];
     }
 
+    //Id which stays with the item even if it moves to another index, should be unique within the provider
+    public getStableId(index: number): string {
+        return this._getStableId ? this._getStableId(this._data[index], index) : index.toString();
+    }
+
+    public hasStableIds(): boolean {
+        return !!this._getStableId;
+    }
+
+    //-1 if no item has the given id. Lookup map is built on first call, O(n) once per provider.
+    public getIndexForStableId(id: string): number {
+        if (!this._stableIdIndexMap) {
+            this._stableIdIndexMap = {};
+            for (let i = 0; i < this._size; i++) {
+                this._stableIdIndexMap[this.getStableId(i)] = i;
+            }
+        }
+        return this._stableIdIndexMap.hasOwnProperty(id) ? this._stableIdIndexMap[id] : -1;
+    }
+
+    //Called with indexes being rendered (visible plus render ahead), override to load data lazily. Data is expected to be in memory by default.
+    public onEngagedIndexesChanged(all: number[], now: number[], notNow: number[]): void {
+        //no need
+    }
+
     public getAllData(): any[] {
         return this._data;
     }
@@ -27,9 +67,54 @@ export default class DataProvider {
         return this._firstIndexToProcess;
     }
 
+    //Number of items at the end which are same as in the previous provider, along with first index to process gives the range that actually changed
+    public getUnchangedEndCountInternal(): number {
+        return this._unchangedEndCount;
+    }
+
+    //Null if the provider wasn't cloned from the given one or changes are only known as first index to process e.g, no stable ids
+    public getChangeSetFrom(previousProvider: DataProvider): DataChangeSet | null {
+        return this._changeSetBaseVersion === previousProvider._version ? this._changeSet : null;
+    }
+
+    public cloneWithInsertedRows(index: number, rows: any[]): DataProvider {
+        const newData = this._data.slice(0, index).concat(rows, this._data.slice(index));
+        return this._cloneWithChangeSet(newData, DataChangeSet.forInsert(this._size, index, rows.length));
+    }
+
+    public cloneWithRemovedRows(index: number, count: number): DataProvider {
+        count = Math.max(0, Math.min(count, this._size - index));
+        const newData = this._data.slice(0, index).concat(this._data.slice(index + count));
+        return this._cloneWithChangeSet(newData, DataChangeSet.forRemove(this._size, index, count));
+    }
+
+    public cloneWithMovedRow(fromIndex: number, toIndex: number): DataProvider {
+        const newData = this._data.slice();
+        newData.splice(toIndex, 0, newData.splice(fromIndex, 1)[0]);
+        return this._cloneWithChangeSet(newData, DataChangeSet.forMove(this._size, fromIndex, toIndex));
+    }
+
+    //Replaces rows starting at index with the given ones
+    public cloneWithUpdatedRows(index: number, rows: any[]): DataProvider {
+        const count = Math.max(0, Math.min(rows.length, this._size - index));
+        const newData = this._data.slice();
+        for (let i = 0; i < count; i++) {
+            newData[index + i] = rows[i];
+        }
+        return this._cloneWithChangeSet(newData, DataChangeSet.forUpdate(this._size, index, count));
+    }
+
     //No need to override this one
     public cloneWithRows(newData: any[]): DataProvider {
-        const dp = new DataProvider(this.rowHasChanged);
+        const dp = new DataProvider(this.rowHasChanged, this._getStableId);
+        if (this._getStableId) {
+            dp._data = newData;
+            dp._size = newData.length;
+            const changeSet = this.diffStableIdsInternal(dp);
+            if (changeSet) {
+                return this._cloneWithChangeSet(newData, changeSet, dp);
+            }
+        }
         const newSize = newData.length;
         const iterCount = Math.min(this._size, newSize);
         let i = 0;
@@ -39,8 +124,57 @@ export default class DataProvider {
             }
         }
         dp._firstIndexToProcess = i;
+        const maxUnchangedEndCount = iterCount - i;
+        let j = 0;
+        for (j = 0; j < maxUnchangedEndCount; j++) {
+            if (this.rowHasChanged(this._data[this._size - 1 - j], newData[newSize - 1 - j])) {
+                break;
+            }
+        }
+        dp._unchangedEndCount = j;
         dp._data = newData;
         dp._size = newSize;
         return dp;
     }
+
+    //For subclasses creating their own clones, change set has to be relative to the given provider
+    protected setChangeSetInternal(previousProvider: DataProvider, changeSet: DataChangeSet): void {
+        this._changeSet = changeSet;
+        this._changeSetBaseVersion = previousProvider._version;
+        this._firstIndexToProcess = changeSet.getFirstChangedIndex();
+        this._unchangedEndCount = changeSet.getUnchangedEndCount();
+    }
+
+    //Null if ids aren't unique, items matched by id are checked with rowHasChanged to find updates. Given provider must already have its data.
+    protected diffStableIdsInternal(dp: DataProvider): DataChangeSet | null {
+        const newSize = dp._size;
+        const oldIndexes: number[] = [];
+        const updatedIndexes: number[] = [];
+        const isMatched: { [oldIndex: number]: boolean } = {};
+        let oldIndex = 0;
+        for (let i = 0; i < newSize; i++) {
+            oldIndex = this.getIndexForStableId(dp.getStableId(i));
+            if (oldIndex >= 0) {
+                if (isMatched[oldIndex]) {
+                    return null;
+                }
+                isMatched[oldIndex] = true;
+                if (this.rowHasChanged(this._data[oldIndex], dp._data[i])) {
+                    updatedIndexes.push(i);
+                }
+            }
+            oldIndexes.push(oldIndex);
+        }
+        return DataChangeSet.fromOldIndexes(oldIndexes, this._size, updatedIndexes);
+    }
+
+    private _cloneWithChangeSet(newData: any[], changeSet: DataChangeSet, dp?: DataProvider): DataProvider {
+        if (!dp) {
+            dp = new DataProvider(this.rowHasChanged, this._getStableId);
+        }
+        dp._data = newData;
+        dp._size = newData.length;
+        dp.setChangeSetInternal(this, changeSet);
+        return dp;
+    }
 }
@@ -0,0 +1,132 @@
+import DataChangeSet from "./DataChangeSet";
+import DataProvider from "./DataProvider";
+
+/***
+ * Filtered and/or sorted view over a source DataProvider, useful for search as you type over large catalogs. Only indexes of matching items are
+ * kept, data is read from the source. Cloning with a new predicate, comparator or source computes a minimal change set against the previous view
+ * i.e, narrowing a search only removes items, so surviving cells aren't re-rendered and measured sizes stay with their items.
+ * Indexes seen by the list (view indexes) can be mapped to source indexes and back, see getSourceIndex and getViewIndex. Items are identified by
+ * source stable ids, by source indexes if the source doesn't have any. Sorting is stable, equal items keep their source order.
+ */
+export default class DerivedDataProvider extends DataProvider {
+    private _source: DataProvider;
+    private _predicate?: (data: any, sourceIndex: number) => boolean;
+    private _comparator?: (d1: any, d2: any) => number;
+    private _sourceIndexes: number[] = [];
+    private _viewIndexes: { [sourceIndex: number]: number } | null = null;
+
+    constructor(source: DataProvider, predicate?: (data: any, sourceIndex: number) => boolean, comparator?: (d1: any, d2: any) => number) {
+        super(source.rowHasChanged);
+        this._source = source;
+        this._predicate = predicate;
+        this._comparator = comparator;
+        this._build();
+    }
+
+    public getSource(): DataProvider {
+        return this._source;
+    }
+
+    public getSourceIndex(viewIndex: number): number {
+        return viewIndex >= 0 && viewIndex < this._size ? this._sourceIndexes[viewIndex] : -1;
+    }
+
+    //-1 if the item is filtered out
+    public getViewIndex(sourceIndex: number): number {
+        if (!this._viewIndexes) {
+            this._viewIndexes = {};
+            for (let i = 0; i < this._size; i++) {
+                this._viewIndexes[this._sourceIndexes[i]] = i;
+            }
+        }
+        return this._viewIndexes.hasOwnProperty(sourceIndex.toString()) ? this._viewIndexes[sourceIndex] : -1;
+    }
+
+    public getStableId(index: number): string {
+        return this._source.getStableId(this._sourceIndexes[index]);
+    }
+
+    public hasStableIds(): boolean {
+        return true;
+    }
+
+    //Pass undefined to remove the filter
+    public cloneWithFilter(predicate?: (data: any, sourceIndex: number) => boolean): DerivedDataProvider {
+        return this._derive(this._source, predicate, this._comparator);
+    }
+
+    //Pass undefined to go back to source order
+    public cloneWithSort(comparator?: (d1: any, d2: any) => number): DerivedDataProvider {
+        return this._derive(this._source, this._predicate, comparator);
+    }
+
+    //Use when source data changes, source items are followed by their stable ids or the source change set
+    public cloneWithSource(source: DataProvider): DerivedDataProvider {
+        return this._derive(source, this._predicate, this._comparator);
+    }
+
+    private _build(): void {
+        const source = this._source;
+        const count = source.getSize();
+        for (let i = 0; i < count; i++) {
+            if (!this._predicate || this._predicate(source.getDataForIndex(i), i)) {
+                this._sourceIndexes.push(i);
+            }
+        }
+        const comparator = this._comparator;
+        if (comparator) {
+            this._sourceIndexes.sort((a, b) => comparator(source.getDataForIndex(a), source.getDataForIndex(b)) || a - b);
+        }
+        this._data = this._sourceIndexes.map((sourceIndex) => source.getDataForIndex(sourceIndex));
+        this._size = this._data.length;
+    }
+
+    private _derive(source: DataProvider, predicate?: (data: any, sourceIndex: number) => boolean,
+                    comparator?: (d1: any, d2: any) => number): DerivedDataProvider {
+        const dp = new DerivedDataProvider(source, predicate, comparator);
+        const getNewSourceIndex = this._getSourceIndexMapper(source);
+        if (getNewSourceIndex) {
+            dp.setChangeSetInternal(this, this._createChangeSet(dp, getNewSourceIndex));
+        }
+        return dp;
+    }
+
+    //Maps indexes of current source to the given one, null if items can't be followed
+    private _getSourceIndexMapper(newSource: DataProvider): ((sourceIndex: number) => number) | null {
+        const oldSource = this._source;
+        if (newSource === oldSource) {
+            return (sourceIndex: number): number => sourceIndex;
+        }
+        const sourceChangeSet = newSource.getChangeSetFrom(oldSource);
+        if (sourceChangeSet) {
+            return (sourceIndex: number): number => sourceChangeSet.getNewIndex(sourceIndex);
+        }
+        if (oldSource.hasStableIds() && newSource.hasStableIds()) {
+            return (sourceIndex: number): number => newSource.getIndexForStableId(oldSource.getStableId(sourceIndex));
+        }
+        return null;
+    }
+
+    private _createChangeSet(dp: DerivedDataProvider, getNewSourceIndex: (sourceIndex: number) => number): DataChangeSet {
+        const oldIndexes: number[] = [];
+        const updatedIndexes: number[] = [];
+        for (let i = 0; i < dp._size; i++) {
+            oldIndexes.push(-1);
+        }
+        let newSourceIndex = 0;
+        let newIndex = 0;
+        for (let i = 0; i < this._size; i++) {
+            newSourceIndex = getNewSourceIndex(this._sourceIndexes[i]);
+            newIndex = newSourceIndex >= 0 ? dp.getViewIndex(newSourceIndex) : -1;
+            if (newIndex >= 0 && oldIndexes[newIndex] === -1) {
+                oldIndexes[newIndex] = i;
+            }
+        }
+        for (let i = 0; i < dp._size; i++) {
+            if (oldIndexes[i] >= 0 && this.rowHasChanged(this._data[oldIndexes[i]], dp._data[i])) {
+                updatedIndexes.push(i);
+            }
+        }
+        return DataChangeSet.fromOldIndexes(oldIndexes, this._size, updatedIndexes);
+    }
+}
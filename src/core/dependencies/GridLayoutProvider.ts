@@ -0,0 +1,58 @@
+import LayoutProvider, { Dimension } from "./LayoutProvider";
+
+/***
+ * Layout provider for grids. Instead of computing pixel widths yourself provide a column count and optionally how many columns an item should span,
+ * widths (heights in horizontal mode) are derived from the window dimension layout manager passes in. setLayoutForType only needs to set the height.
+ * Since layout managers are recreated when window width changes, widths get recomputed on rotation/resize through the regular relayout.
+ * Cross axis gap of the layout manager is accounted for, an item spanning multiple columns also covers the gaps between them.
+ * Items spanning all columns e.g, banners or section headers can return columnCount from getSpanForIndex. Items are still placed by the layout manager,
+ * default one fills rows left to right and moves to the next row when an item doesn't fit.
+ */
+export default class GridLayoutProvider extends LayoutProvider {
+    private _columnCount: number;
+    private _getSpanForIndex: (index: number) => number;
+    private _windowSize: number;
+    private _gap: number;
+    private _isHorizontal: boolean;
+
+    constructor(columnCount: number,
+                getLayoutTypeForIndex: (index: number) => string | number,
+                setLayoutForType: (type: string | number, dim: Dimension, index: number) => void,
+                getSpanForIndex?: (index: number) => number) {
+        super(getLayoutTypeForIndex, setLayoutForType);
+        this._columnCount = Math.max(1, Math.floor(columnCount));
+        this._getSpanForIndex = getSpanForIndex ? getSpanForIndex : () => 1;
+        this._windowSize = 0;
+        this._gap = 0;
+        this._isHorizontal = false;
+    }
+
+    public getColumnCount(): number {
+        return this._columnCount;
+    }
+
+    //Number of columns item at the given index occupies, clamped between 1 and column count
+    public getSpanForIndex(index: number): number {
+        return Math.min(this._columnCount, Math.max(1, Math.floor(this._getSpanForIndex(index))));
+    }
+
+    public setWindowDimension(dimension: Dimension, isHorizontal: boolean, crossAxisGap: number = 0): void {
+        this._windowSize = isHorizontal ? dimension.height : dimension.width;
+        this._gap = crossAxisGap;
+        this._isHorizontal = isHorizontal;
+    }
+
+    //Cross axis size is overwritten after the given setLayoutForType runs. Sizes are rounded down so that floating point errors never push the last
+    //item of a row into the next one.
+    public setLayoutForType(type: string | number, dimension: Dimension, index: number): void {
+        super.setLayoutForType(type, dimension, index);
+        const span = this.getSpanForIndex(index);
+        const columnSize = (this._windowSize - this._gap * (this._columnCount - 1)) / this._columnCount;
+        const size = Math.max(0, Math.floor(columnSize * span + this._gap * (span - 1)));
+        if (this._isHorizontal) {
+            dimension.height = size;
+        } else {
+            dimension.width = size;
+        }
+    }
+}
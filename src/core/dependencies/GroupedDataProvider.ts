@@ -0,0 +1,188 @@
+import BinarySearch from "../../utils/BinarySearch";
+import DataChangeSet from "./DataChangeSet";
+import DataProvider from "./DataProvider";
+import SectionDataProvider from "./SectionDataProvider";
+
+/***
+ * Collapsible groups over a source DataProvider e.g, grouped inboxes. A group is a header item and every item after it till the next header, items
+ * before the first header don't belong to any group. Collapsing a group hides its children from the list without touching the source, headers
+ * are always shown. Headers are found using isGroupHeader, for a SectionDataProvider source section headers are used if it isn't given.
+ * Collapse and expand clones only carry the hidden or shown range as change set, so nothing before the header is laid out again, items after the
+ * group are shifted and children mount or unmount through the ItemAnimator. RecyclerListView keeps the header in the viewport if a collapse
+ * hides the first visible item, see getHeaderIndexForHiddenItem. Groups are identified by stable ids of their headers and stay collapsed when
+ * source changes, see cloneWithSource.
+ */
+export default class GroupedDataProvider extends DataProvider {
+    private _source: DataProvider;
+    private _isGroupHeader?: (data: any, sourceIndex: number) => boolean;
+    private _collapsedIds: { [headerId: string]: boolean };
+    private _sourceIndexes: number[] = [];
+    private _childCounts: { [headerSourceIndex: number]: number } = {};
+    private _headerSourceIndexes: number[] = [];
+    private _isCollapseClone: boolean = false;
+    private _viewIndexes: { [sourceIndex: number]: number } | null = null;
+
+    constructor(source: DataProvider, isGroupHeader?: (data: any, sourceIndex: number) => boolean, collapsedIds: { [headerId: string]: boolean } = {}) {
+        super(source.rowHasChanged);
+        this._source = source;
+        this._isGroupHeader = isGroupHeader;
+        this._collapsedIds = collapsedIds;
+        this._build();
+    }
+
+    public getSource(): DataProvider {
+        return this._source;
+    }
+
+    public getSourceIndex(viewIndex: number): number {
+        return viewIndex >= 0 && viewIndex < this._size ? this._sourceIndexes[viewIndex] : -1;
+    }
+
+    //-1 if the item is hidden in a collapsed group
+    public getViewIndex(sourceIndex: number): number {
+        if (!this._viewIndexes) {
+            this._viewIndexes = {};
+            for (let i = 0; i < this._size; i++) {
+                this._viewIndexes[this._sourceIndexes[i]] = i;
+            }
+        }
+        return this._viewIndexes.hasOwnProperty(sourceIndex.toString()) ? this._viewIndexes[sourceIndex] : -1;
+    }
+
+    public getStableId(index: number): string {
+        return this._source.getStableId(this._sourceIndexes[index]);
+    }
+
+    public hasStableIds(): boolean {
+        return true;
+    }
+
+    public isGroupHeader(index: number): boolean {
+        return this._childCounts.hasOwnProperty(this.getSourceIndex(index).toString());
+    }
+
+    public isCollapsed(index: number): boolean {
+        return this.isGroupHeader(index) && !!this._collapsedIds[this.getStableId(index)];
+    }
+
+    //Number of children of the group in the source, hidden or not. 0 if the index isn't a header.
+    public getChildCount(index: number): number {
+        return this.isGroupHeader(index) ? this._childCounts[this._sourceIndexes[index]] : 0;
+    }
+
+    //Useful as stickyHeaderIndices
+    public getGroupHeaderIndices(): number[] {
+        const headerIndices: number[] = [];
+        for (let i = 0; i < this._size; i++) {
+            if (this.isGroupHeader(i)) {
+                headerIndices.push(i);
+            }
+        }
+        return headerIndices;
+    }
+
+    //Returns the same provider if the index isn't a header or it's already in the given state
+    public cloneWithCollapsed(index: number, isCollapsed: boolean): GroupedDataProvider {
+        if (!this.isGroupHeader(index) || this.isCollapsed(index) === isCollapsed) {
+            return this;
+        }
+        const collapsedIds = this._copyCollapsedIds();
+        if (isCollapsed) {
+            collapsedIds[this.getStableId(index)] = true;
+        } else {
+            delete collapsedIds[this.getStableId(index)];
+        }
+        return this._cloneWithCollapsedIds(collapsedIds);
+    }
+
+    public cloneWithToggledGroup(index: number): GroupedDataProvider {
+        return this.cloneWithCollapsed(index, !this.isCollapsed(index));
+    }
+
+    public cloneWithAllCollapsed(isCollapsed: boolean): GroupedDataProvider {
+        const collapsedIds: { [headerId: string]: boolean } = {};
+        if (isCollapsed) {
+            for (const headerIndex of this.getGroupHeaderIndices()) {
+                collapsedIds[this.getStableId(headerIndex)] = true;
+            }
+        }
+        return this._cloneWithCollapsedIds(collapsedIds);
+    }
+
+    //Lets the list keep the header in view when a collapse hides its first visible item. For collapse and expand clones returns the index of the
+    //header of the group the item at previousIndex in the given provider belonged to if that item got hidden, -1 otherwise.
+    public getHeaderIndexForHiddenItem(previousProvider: GroupedDataProvider, previousIndex: number): number {
+        if (!this._isCollapseClone || !this.getChangeSetFrom(previousProvider)) {
+            return -1;
+        }
+        const sourceIndex = previousProvider.getSourceIndex(previousIndex);
+        if (sourceIndex < 0 || this.getViewIndex(sourceIndex) >= 0) {
+            return -1;
+        }
+        const headerIndexes = this._headerSourceIndexes;
+        const position = BinarySearch.findFirstHigherValueIndex(headerIndexes.length, sourceIndex, (i: number) => headerIndexes[i]) - 1;
+        return position >= 0 ? this.getViewIndex(headerIndexes[position]) : -1;
+    }
+
+    //Use when source data changes, collapsed groups stay collapsed. Items are followed by stable ids if the source has them.
+    public cloneWithSource(source: DataProvider): GroupedDataProvider {
+        const dp = new GroupedDataProvider(source, this._isGroupHeader, this._collapsedIds);
+        if (this._source.hasStableIds() && source.hasStableIds()) {
+            const changeSet = this.diffStableIdsInternal(dp);
+            if (changeSet) {
+                dp.setChangeSetInternal(this, changeSet);
+            }
+        }
+        return dp;
+    }
+
+    private _build(): void {
+        const source = this._source;
+        const count = source.getSize();
+        let headerSourceIndex = -1;
+        let isGroupCollapsed = false;
+        for (let i = 0; i < count; i++) {
+            if (this._isHeaderInSource(i)) {
+                headerSourceIndex = i;
+                isGroupCollapsed = !!this._collapsedIds[source.getStableId(i)];
+                this._childCounts[i] = 0;
+                this._headerSourceIndexes.push(i);
+                this._sourceIndexes.push(i);
+            } else {
+                if (headerSourceIndex >= 0) {
+                    this._childCounts[headerSourceIndex]++;
+                }
+                if (!isGroupCollapsed) {
+                    this._sourceIndexes.push(i);
+                }
+            }
+        }
+        this._data = this._sourceIndexes.map((sourceIndex) => source.getDataForIndex(sourceIndex));
+        this._size = this._data.length;
+    }
+
+    private _isHeaderInSource(sourceIndex: number): boolean {
+        const source = this._source;
+        if (this._isGroupHeader) {
+            return this._isGroupHeader(source.getDataForIndex(sourceIndex), sourceIndex);
+        }
+        return source instanceof SectionDataProvider && source.getItemKindForIndex(sourceIndex) === "header";
+    }
+
+    private _copyCollapsedIds(): { [headerId: string]: boolean } {
+        const collapsedIds: { [headerId: string]: boolean } = {};
+        for (const headerId of Object.keys(this._collapsedIds)) {
+            collapsedIds[headerId] = true;
+        }
+        return collapsedIds;
+    }
+
+    //Source stays the same, only children of toggled groups are inserted or removed
+    private _cloneWithCollapsedIds(collapsedIds: { [headerId: string]: boolean }): GroupedDataProvider {
+        const dp = new GroupedDataProvider(this._source, this._isGroupHeader, collapsedIds);
+        const oldIndexes = dp._sourceIndexes.map((sourceIndex) => this.getViewIndex(sourceIndex));
+        dp.setChangeSetInternal(this, DataChangeSet.fromOldIndexes(oldIndexes, this._size, []));
+        dp._isCollapseClone = true;
+        return dp;
+    }
+}
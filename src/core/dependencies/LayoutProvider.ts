@@ -33,6 +33,12 @@ export default class LayoutProvider {
     public setLayoutForType(type: string | number, dimension: Dimension, index: number): void {
         return this._setLayoutForType(type, dimension, index);
     }
+
+    //Layout managers call this with the window they lay items out in (and gap they leave between items in a row) before computing any layout.
+    //Override if sizes depend on the window e.g, GridLayoutProvider. Not required otherwise.
+    public setWindowDimension(dimension: Dimension, isHorizontal: boolean, crossAxisGap: number = 0): void {
+        //no need
+    }
 }
 
 export interface Dimension {
@@ -0,0 +1,36 @@
+import PageFetcher from "./PageFetcher";
+
+/***
+ * In process PageFetcher backed by an array. Pages resolve asynchronously after the given delay (in ms) just like a remote fetch would, pass
+ * failingPages to reject fetches of specific pages. Keeps a count of fetches so that loading behaviour can be asserted.
+ */
+export default class LocalPageFetcher extends PageFetcher {
+    private _data: any[];
+    private _delay: number;
+    private _failingPages: number[];
+    private _fetchCount: number = 0;
+
+    constructor(data: any[], delay: number = 0, failingPages: number[] = []) {
+        super();
+        this._data = data;
+        this._delay = delay;
+        this._failingPages = failingPages;
+    }
+
+    public fetchPage(pageIndex: number, pageSize: number): Promise<any[]> {
+        this._fetchCount++;
+        return new Promise<any[]>((resolve, reject) => {
+            setTimeout(() => {
+                if (this._failingPages.indexOf(pageIndex) > -1) {
+                    reject(new Error("Failed to fetch page: " + pageIndex));
+                } else {
+                    resolve(this._data.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize));
+                }
+            }, this._delay);
+        });
+    }
+
+    public getFetchCount(): number {
+        return this._fetchCount;
+    }
+}
@@ -0,0 +1,8 @@
+/***
+ * Loads pages of rows for PagedDataProvider, implement this over your network or storage layer. Page index is zero based, resolve with fewer rows
+ * than page size only for the last page. Rejected fetches are retried when the page is engaged again.
+ * LocalPageFetcher serves pages from an in memory array, useful for tests and demos.
+ */
+export default abstract class PageFetcher {
+    public abstract fetchPage(pageIndex: number, pageSize: number): Promise<any[]>;
+}
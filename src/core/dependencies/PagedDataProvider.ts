@@ -0,0 +1,179 @@
+import DataChangeSet from "./DataChangeSet";
+import DataProvider from "./DataProvider";
+import PageFetcher from "./PageFetcher";
+
+/***
+ * Data provider for lists too large to keep in memory. Total count is known upfront so layouts and scroll size are available immediately, rows
+ * are fetched page by page as RecyclerListView engages their indexes. Rows which aren't loaded yet are placeholders, getDataForIndex returns
+ * undefined for them. Use isPlaceholder in your LayoutProvider to give them their own type e.g, PagedDataProvider.PLACEHOLDER_TYPE, and render
+ * a skeleton for that type.
+ * Whenever a page arrives (or gets evicted) a new provider is cloned and handed to onDataChange, set it on the list like any other clone. Change
+ * set of the clone only contains the affected rows so nothing else is re-laid out or re-rendered.
+ * At most maxLoadedPages pages are kept, pages engaged least recently are evicted first. Pages currently engaged are never evicted.
+ */
+interface PagedDataState {
+    latestProvider: PagedDataProvider;
+    pendingPages: { [pageIndex: number]: boolean };
+    engagedPages: { [pageIndex: number]: boolean };
+
+    //Engagement counter value when a page was last engaged, used to find least recently engaged pages
+    lastEngagedAt: { [pageIndex: number]: number };
+    engagementCount: number;
+}
+
+export default class PagedDataProvider extends DataProvider {
+    public static PLACEHOLDER_TYPE = "RLV_PLACEHOLDER";
+
+    private _fetcher: PageFetcher;
+    private _pageSize: number;
+    private _maxLoadedPages: number;
+    private _onDataChange: (dataProvider: PagedDataProvider) => void;
+    private _pages: { [pageIndex: number]: any[] } = {};
+    private _loadedPageIndexes: number[] = [];
+
+    //Shared by all clones, fetches complete on the latest provider
+    private _state: PagedDataState;
+
+    constructor(rowHasChanged: (r1: any, r2: any) => boolean, fetcher: PageFetcher, totalCount: number,
+                onDataChange: (dataProvider: PagedDataProvider) => void, pageSize: number = 20, maxLoadedPages: number = 10) {
+        super(rowHasChanged);
+        this._fetcher = fetcher;
+        this._size = totalCount;
+        this._onDataChange = onDataChange;
+        this._pageSize = Math.max(1, pageSize);
+        this._maxLoadedPages = Math.max(1, maxLoadedPages);
+        this._state = {
+            engagedPages: {},
+            engagementCount: 0,
+            lastEngagedAt: {},
+            latestProvider: this,
+            pendingPages: {},
+        };
+    }
+
+    public getDataForIndex(index: number): any {
+        const page = this._pages[this.getPageForIndex(index)];
+        return page ? page[index % this._pageSize] : undefined;
+    }
+
+    public isPlaceholder(index: number): boolean {
+        return !this._pages[this.getPageForIndex(index)];
+    }
+
+    public getPageForIndex(index: number): number {
+        return Math.floor(index / this._pageSize);
+    }
+
+    public getPageSize(): number {
+        return this._pageSize;
+    }
+
+    public isPageLoaded(pageIndex: number): boolean {
+        return !!this._pages[pageIndex];
+    }
+
+    //Only loaded rows, placeholders are left as holes
+    public getAllData(): any[] {
+        const data: any[] = [];
+        for (const pageIndex of this._loadedPageIndexes) {
+            const page = this._pages[pageIndex];
+            const start = pageIndex * this._pageSize;
+            for (let i = 0; i < page.length; i++) {
+                data[start + i] = page[i];
+            }
+        }
+        return data;
+    }
+
+    public onEngagedIndexesChanged(all: number[], now: number[], notNow: number[]): void {
+        const state = this._state;
+        state.engagementCount++;
+        state.engagedPages = {};
+        for (const index of all) {
+            const pageIndex = this.getPageForIndex(index);
+            if (!state.engagedPages[pageIndex]) {
+                state.engagedPages[pageIndex] = true;
+                state.lastEngagedAt[pageIndex] = state.engagementCount;
+                if (!state.latestProvider.isPageLoaded(pageIndex) && !state.pendingPages[pageIndex]) {
+                    this._fetchPage(pageIndex);
+                }
+            }
+        }
+    }
+
+    //Several pages may arrive before the list gets the previous clone, change set then covers every page loaded or evicted in between
+    public getChangeSetFrom(previousProvider: DataProvider): DataChangeSet | null {
+        const changeSet = super.getChangeSetFrom(previousProvider);
+        if (changeSet || !(previousProvider instanceof PagedDataProvider) || previousProvider._state !== this._state) {
+            return changeSet;
+        }
+        const changedPageIndexes = this._loadedPageIndexes.filter((pageIndex) => this._pages[pageIndex] !== previousProvider._pages[pageIndex]);
+        for (const pageIndex of previousProvider._loadedPageIndexes) {
+            if (!this._pages[pageIndex]) {
+                changedPageIndexes.push(pageIndex);
+            }
+        }
+        return this._createChangeSet(changedPageIndexes);
+    }
+
+    private _fetchPage(pageIndex: number): void {
+        const state = this._state;
+        state.pendingPages[pageIndex] = true;
+        this._fetcher.fetchPage(pageIndex, this._pageSize).then((rows: any[]) => {
+            delete state.pendingPages[pageIndex];
+            const dp = state.latestProvider._cloneWithPage(pageIndex, rows);
+            state.latestProvider = dp;
+            this._onDataChange(dp);
+        }, () => {
+            //Stays a placeholder, fetched again on next engagement
+            delete state.pendingPages[pageIndex];
+        });
+    }
+
+    private _cloneWithPage(pageIndex: number, rows: any[]): PagedDataProvider {
+        const dp = new PagedDataProvider(this.rowHasChanged, this._fetcher, this._size, this._onDataChange, this._pageSize, this._maxLoadedPages);
+        dp._state = this._state;
+        for (const loadedPageIndex of this._loadedPageIndexes) {
+            dp._pages[loadedPageIndex] = this._pages[loadedPageIndex];
+        }
+        dp._loadedPageIndexes = this._loadedPageIndexes.slice();
+        if (!dp._pages[pageIndex]) {
+            dp._loadedPageIndexes.push(pageIndex);
+        }
+        dp._pages[pageIndex] = rows.slice(0, this._pageSize);
+        const evictedPages = dp._evictPages(pageIndex);
+        dp.setChangeSetInternal(this, this._createChangeSet([pageIndex].concat(evictedPages)));
+        return dp;
+    }
+
+    //Evicts least recently engaged pages which aren't engaged right now till the budget is met, returns evicted pages
+    private _evictPages(keptPageIndex: number): number[] {
+        const state = this._state;
+        const evictedPages: number[] = [];
+        const candidates = this._loadedPageIndexes.filter((pageIndex) => pageIndex !== keptPageIndex && !state.engagedPages[pageIndex]);
+        candidates.sort((a, b) => this._getLastEngagedAt(a) - this._getLastEngagedAt(b));
+        while (this._loadedPageIndexes.length > this._maxLoadedPages && candidates.length > 0) {
+            const pageIndex = candidates.shift() as number;
+            delete this._pages[pageIndex];
+            this._loadedPageIndexes.splice(this._loadedPageIndexes.indexOf(pageIndex), 1);
+            evictedPages.push(pageIndex);
+        }
+        return evictedPages;
+    }
+
+    private _getLastEngagedAt(pageIndex: number): number {
+        const lastEngagedAt = this._state.lastEngagedAt[pageIndex];
+        return lastEngagedAt !== undefined ? lastEngagedAt : -1;
+    }
+
+    //Rows of the given pages changed between data and placeholder, every other row stays where it is. Built from page ranges, size of the change
+    //set doesn't depend on total count.
+    private _createChangeSet(pageIndexes: number[]): DataChangeSet {
+        pageIndexes.sort((a, b) => a - b);
+        const updates = pageIndexes.map((pageIndex) => {
+            const start = pageIndex * this._pageSize;
+            return { index: start, count: Math.min(this._size, start + this._pageSize) - start };
+        });
+        return new DataChangeSet([{ oldIndex: 0, count: this._size }], this._size, updates);
+    }
+}
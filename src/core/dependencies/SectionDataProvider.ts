@@ -0,0 +1,178 @@
+import CustomError from "../exceptions/CustomError";
+import RecyclerListViewExceptions from "../exceptions/RecyclerListViewExceptions";
+import DataProvider from "./DataProvider";
+
+/***
+ * Data provider for sectioned lists. Sections are flattened into rows i.e, an optional header, all section rows and an optional footer which means
+ * everything else (layouts, recycling, viewability) keeps working on flat indexes. Use getItemInfoForIndex to map an index back to its section and row
+ * and getIndexForSection to go the other way. Clone with sections lets listview know where to calculate row layout from, unchanged sections are skipped
+ * quickly if the section object (or its data array) is reused.
+ * getDataForIndex returns header/footer value for header/footer indexes and row data otherwise.
+ */
+export type SectionItemKind = "header" | "row" | "footer";
+
+export interface Section {
+    header?: any;
+    footer?: any;
+    data: any[];
+}
+export interface SectionItemInfo {
+    kind: SectionItemKind;
+    sectionIndex: number;
+
+    //-1 for headers and footers
+    rowIndex: number;
+}
+
+export default class SectionDataProvider extends DataProvider {
+    public sectionHasChanged: (s1: any, s2: any) => boolean;
+    private _sections: Section[] = [];
+    private _itemInfos: SectionItemInfo[] = [];
+    private _sectionStartIndexes: number[] = [];
+
+    //sectionHasChanged compares header/footer values, by default they're compared by reference. getStableId receives header/footer values as well.
+    constructor(rowHasChanged: (r1: any, r2: any) => boolean, sectionHasChanged?: (s1: any, s2: any) => boolean,
+                getStableId?: (data: any, index: number) => string) {
+        super(rowHasChanged, getStableId);
+        this.sectionHasChanged = sectionHasChanged ? sectionHasChanged : (s1: any, s2: any) => s1 !== s2;
+    }
+
+    public getSections(): Section[] {
+        return this._sections;
+    }
+
+    public getItemInfoForIndex(index: number): SectionItemInfo {
+        return this._itemInfos[index];
+    }
+
+    public getItemKindForIndex(index: number): SectionItemKind {
+        return this._itemInfos[index].kind;
+    }
+
+    public getSectionForIndex(index: number): number {
+        return this._itemInfos[index].sectionIndex;
+    }
+
+    //Index of the first item (header if present) of the given section
+    public getIndexForSection(sectionIndex: number): number {
+        return this._sectionStartIndexes[sectionIndex];
+    }
+
+    //Useful as stickyHeaderIndices
+    public getHeaderIndices(): number[] {
+        const headerIndices: number[] = [];
+        const count = this._sections.length;
+        for (let i = 0; i < count; i++) {
+            if (this._hasHeader(this._sections[i])) {
+                headerIndices.push(this._sectionStartIndexes[i]);
+            }
+        }
+        return headerIndices;
+    }
+
+    //Row based clones of DataProvider would return a provider without section info, they throw so that misuse doesn't surface at layout time
+    public cloneWithRows(newData: any[]): DataProvider {
+        throw new CustomError(RecyclerListViewExceptions.sectionCloneException);
+    }
+
+    public cloneWithInsertedRows(index: number, rows: any[]): DataProvider {
+        throw new CustomError(RecyclerListViewExceptions.sectionCloneException);
+    }
+
+    public cloneWithRemovedRows(index: number, count: number): DataProvider {
+        throw new CustomError(RecyclerListViewExceptions.sectionCloneException);
+    }
+
+    public cloneWithMovedRow(fromIndex: number, toIndex: number): DataProvider {
+        throw new CustomError(RecyclerListViewExceptions.sectionCloneException);
+    }
+
+    public cloneWithUpdatedRows(index: number, rows: any[]): DataProvider {
+        throw new CustomError(RecyclerListViewExceptions.sectionCloneException);
+    }
+
+    public cloneWithSections(newSections: Section[]): SectionDataProvider {
+        const dp = new SectionDataProvider(this.rowHasChanged, this.sectionHasChanged, this._getStableId);
+        dp._flatten(newSections);
+        dp._firstIndexToProcess = this._findFirstChangedIndex(dp);
+        return dp;
+    }
+
+    private _flatten(sections: Section[]): void {
+        const sectionCount = sections.length;
+        let section: Section;
+        let rowCount = 0;
+        this._sections = sections;
+        for (let i = 0; i < sectionCount; i++) {
+            section = sections[i];
+            this._sectionStartIndexes.push(this._data.length);
+            if (this._hasHeader(section)) {
+                this._addItem(section.header, { kind: "header", sectionIndex: i, rowIndex: -1 });
+            }
+            rowCount = section.data.length;
+            for (let j = 0; j < rowCount; j++) {
+                this._addItem(section.data[j], { kind: "row", sectionIndex: i, rowIndex: j });
+            }
+            if (this._hasFooter(section)) {
+                this._addItem(section.footer, { kind: "footer", sectionIndex: i, rowIndex: -1 });
+            }
+        }
+        this._size = this._data.length;
+    }
+
+    private _addItem(data: any, itemInfo: SectionItemInfo): void {
+        this._data.push(data);
+        this._itemInfos.push(itemInfo);
+    }
+
+    //Sections that are reused as is are skipped without looking at their rows
+    private _findFirstChangedIndex(newProvider: SectionDataProvider): number {
+        const iterCount = Math.min(this._sections.length, newProvider._sections.length);
+        let oldSection: Section;
+        let newSection: Section;
+        let i = 0;
+        for (i = 0; i < iterCount; i++) {
+            oldSection = this._sections[i];
+            newSection = newProvider._sections[i];
+            if (oldSection !== newSection && (oldSection.data !== newSection.data || this._haveSectionValuesChanged(oldSection, newSection))) {
+                break;
+            }
+        }
+        if (i === iterCount) {
+            return Math.min(this._size, newProvider._size);
+        }
+        const startIndex = this._sectionStartIndexes[i];
+        const endIndex = Math.min(this._size, newProvider._size);
+        let index = startIndex;
+        for (index = startIndex; index < endIndex; index++) {
+            if (this._hasItemChanged(index, newProvider)) {
+                break;
+            }
+        }
+        return index;
+    }
+
+    private _hasItemChanged(index: number, newProvider: SectionDataProvider): boolean {
+        const oldInfo = this._itemInfos[index];
+        const newInfo = newProvider._itemInfos[index];
+        if (oldInfo.kind !== newInfo.kind || oldInfo.sectionIndex !== newInfo.sectionIndex || oldInfo.rowIndex !== newInfo.rowIndex) {
+            return true;
+        }
+        return oldInfo.kind === "row" ? this.rowHasChanged(this._data[index], newProvider._data[index]) :
+            this.sectionHasChanged(this._data[index], newProvider._data[index]);
+    }
+
+    private _haveSectionValuesChanged(oldSection: Section, newSection: Section): boolean {
+        return this._hasHeader(oldSection) !== this._hasHeader(newSection) || this._hasFooter(oldSection) !== this._hasFooter(newSection) ||
+            (this._hasHeader(oldSection) && this.sectionHasChanged(oldSection.header, newSection.header)) ||
+            (this._hasFooter(oldSection) && this.sectionHasChanged(oldSection.footer, newSection.footer));
+    }
+
+    private _hasHeader(section: Section): boolean {
+        return section.header !== undefined && section.header !== null;
+    }
+
+    private _hasFooter(section: Section): boolean {
+        return section.footer !== undefined && section.footer !== null;
+    }
+}
@@ -0,0 +1,17 @@
+import LayoutProvider, { Dimension } from "./LayoutProvider";
+import SectionDataProvider, { SectionItemKind } from "./SectionDataProvider";
+
+/***
+ * Layout provider for use with SectionDataProvider. Instead of a flat index you get the kind of item (header, row or footer) along with its section
+ * and row index to decide the type. Since data providers are immutable pass a method which returns the latest one e.g, () => this.state.dataProvider
+ */
+export default class SectionLayoutProvider extends LayoutProvider {
+    constructor(getDataProvider: () => SectionDataProvider,
+                getLayoutTypeForItem: (kind: SectionItemKind, sectionIndex: number, rowIndex: number) => string | number,
+                setLayoutForType: (type: string | number, dim: Dimension, index: number) => void) {
+        super((index: number) => {
+            const itemInfo = getDataProvider().getItemInfoForIndex(index);
+            return getLayoutTypeForItem(itemInfo.kind, itemInfo.sectionIndex, itemInfo.rowIndex);
+        }, setLayoutForType);
+    }
+}
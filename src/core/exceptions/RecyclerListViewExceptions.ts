@@ -22,6 +22,10 @@ const RecyclerListViewExceptions: {[key: string]: Exception} = {
         "in browser make sure process.env.RLV_ENV is set to browser in webpack config",
         type: "PlatformNotDetectedException",
     },
+    sectionCloneException: {
+        message: "SectionDataProvider can only be cloned using cloneWithSections, row based clones would drop section info",
+        type: "SectionCloneException",
+    },
     unresolvedDependenciesException: {
         message: "missing datasource or layout provider, cannot proceed without it",
         type: "UnresolvedDependenciesException",
@@ -0,0 +1,90 @@
+/***
+ * Contract every layout manager needs to fulfill. RecyclerListView, VirtualRenderer and ViewabilityTracker only talk to this abstraction which means
+ * you can write your own layout manager and arrange items just the way you want. Layouts are expected to be indexed by data index and positions are
+ * relative to the top left corner of the scrollable content.
+ * Pass a factory via layoutManagerFactory prop on RecyclerListView to use your own implementation, default is a StaggeredList (see LayoutManager).
+ */
+import DataChangeSet from "../dependencies/DataChangeSet";
+import LayoutProvider, { Dimension } from "../dependencies/LayoutProvider";
+
+export default abstract class BaseLayoutManager {
+    //Total size of the content, used as scrollable content size. Can be an estimate if layouts are computed lazily.
+    public abstract getLayoutDimension(): Dimension;
+
+    //Computed layouts, index of a layout should be same as the data index it belongs to
+    public abstract getLayouts(): Rect[];
+
+    //Position of item at given index, used for scrollToIndex and initial render index. Lazy implementations should compute the layout on demand.
+    public abstract getOffsetForIndex(index: number): Point;
+
+    //Called in non deterministic rendering mode when actual dimensions of an item are known, relayout will follow
+    public abstract overrideLayout(index: number, dim: Dimension): void;
+
+    //Recompute layouts starting from given index, items before the index are assumed to be unchanged
+    public abstract reLayoutFromIndex(startIndex: number, itemCount: number): void;
+
+    //Viewability tracker calls this with the offset till which layouts are required. Lazy implementations should append computed layouts to the array
+    //returned by getLayouts (in place). Everything is computed upfront by default.
+    public ensureLayoutsUntilOffset(offset: number): void {
+        //no need
+    }
+
+    //Clamp dimensions given by layout provider to what the layout can accommodate, no clamping by default
+    public setMaxBounds(itemDim: Dimension): void {
+        //no need
+    }
+
+    //Called on data change when only a contiguous range of items has been replaced, deleteCount items at startIndex were replaced by insertCount
+    //new ones. Implementations which can shift following layouts cheaply should override, default relayouts everything after startIndex.
+    public spliceLayouts(startIndex: number, deleteCount: number, insertCount: number, itemCount: number): void {
+        this.reLayoutFromIndex(startIndex, itemCount);
+    }
+
+    //Called on data change when the data provider knows exactly what changed. Layouts (and measured sizes) of surviving items should move to their
+    //new indexes, only inserted and updated items need fresh dimensions. Default treats everything between first changed index and the unchanged
+    //tail as replaced.
+    public applyChangeSet(changeSet: DataChangeSet, itemCount: number): void {
+        const firstIndex = changeSet.getFirstChangedIndex();
+        const unchangedEndCount = changeSet.getUnchangedEndCount();
+        this.spliceLayouts(firstIndex, Math.max(0, changeSet.getOldSize() - firstIndex - unchangedEndCount),
+            Math.max(0, itemCount - firstIndex - unchangedEndCount), itemCount);
+    }
+
+    //Index of the first item whose layout ends after the offset (item count if there's none), used to find the first visible item. Return -1 if it
+    //can't be found faster than a binary search over layouts, which is the default.
+    public findIndexForOffset(offset: number): number {
+        return -1;
+    }
+
+    //Whether gaps and insets given to layoutManagerFactory are applied to layouts, list skips rendering the trailing inset otherwise. Only
+    //LayoutManager (default) applies them.
+    public supportsLayoutSpacing(): boolean {
+        return false;
+    }
+
+    //If start offsets of layouts never decrease with index viewability tracker can skip computing bounds and search layouts directly
+    public areLayoutsSorted(): boolean {
+        return false;
+    }
+}
+
+//In RTL mode layout managers are expected to mirror x positions in vertical lists. In horizontal lists x should stay the distance from the start which
+//is the right edge in that case, list renders it mirrored since final content width isn't known upfront.
+export type LayoutManagerFactory = (layoutProvider: LayoutProvider, dimensions: Dimension, isHorizontal?: boolean,
+                                    cachedLayouts?: Rect[], isRTL?: boolean, spacing?: LayoutSpacing) => BaseLayoutManager;
+
+//Gaps between items and empty space before the first and after the last row, main axis is the scroll direction. All values default to 0.
+export interface LayoutSpacing {
+    mainAxisGap?: number;
+    crossAxisGap?: number;
+    leadingInset?: number;
+    trailingInset?: number;
+}
+
+export interface Rect extends Dimension, Point {
+    isOverridden?: boolean;
+}
+export interface Point {
+    x: number;
+    y: number;
+}
@@ -0,0 +1,81 @@
+/***
+ * Serializes measured item sizes so that they can be restored via ContextProvider. Sizes are keyed by stable ids from data provider instead of
+ * indexes which means items that moved or survived a data change while the list was away still get their measured size, everything else is
+ * laid out fresh. Cache is stamped with a version and the window size along the cross axis (width in vertical lists), if either doesn't match
+ * nothing is reused since measured sizes depend on it.
+ * Only overridden (measured) layouts are stored, positions are always recomputed by the layout manager.
+ */
+import DataProvider from "../dependencies/DataProvider";
+import { Dimension } from "../dependencies/LayoutProvider";
+import { Rect } from "./BaseLayoutManager";
+
+export interface LayoutCacheData {
+    version: number;
+    isHorizontal: boolean;
+    windowSize: number;
+
+    //Stable id to [width, height]
+    sizes: { [id: string]: number[] };
+}
+
+export default class LayoutCache {
+    //Bump whenever stored format or meaning of stored values changes
+    public static VERSION = 1;
+
+    public static serialize(layouts: Rect[], dataProvider: DataProvider, window: Dimension, isHorizontal: boolean): string {
+        const sizes: { [id: string]: number[] } = {};
+        const count = Math.min(layouts.length, dataProvider.getSize());
+        let layout: Rect;
+        for (let i = 0; i < count; i++) {
+            layout = layouts[i];
+            if (layout.isOverridden) {
+                sizes[dataProvider.getStableId(i)] = [layout.width, layout.height];
+            }
+        }
+        const data: LayoutCacheData = {
+            isHorizontal,
+            sizes,
+            version: LayoutCache.VERSION,
+            windowSize: LayoutCache._getWindowSize(window, isHorizontal),
+        };
+        return JSON.stringify(data);
+    }
+
+    //Returns null if serialized value is not a valid cache of the current version
+    public static parse(serialized: string): LayoutCacheData | null {
+        try {
+            const data = JSON.parse(serialized);
+            if (data && data.version === LayoutCache.VERSION && data.sizes) {
+                return data as LayoutCacheData;
+            }
+        } catch (e) {
+            //no need
+        }
+        return null;
+    }
+
+    //Layouts indexed by current data index to be passed to layout manager, matched items are marked overridden. Undefined if the cache
+    //was created for another window size or orientation.
+    public static restore(data: LayoutCacheData, dataProvider: DataProvider, window: Dimension, isHorizontal: boolean): Rect[] | undefined {
+        if (data.isHorizontal !== isHorizontal || data.windowSize !== LayoutCache._getWindowSize(window, isHorizontal)) {
+            return undefined;
+        }
+        const layouts: Rect[] = [];
+        const count = dataProvider.getSize();
+        let id = "";
+        for (let i = 0; i < count; i++) {
+            id = dataProvider.getStableId(i);
+            if (data.sizes.hasOwnProperty(id)) {
+                const size = data.sizes[id];
+                layouts.push({ x: 0, y: 0, width: size[0], height: size[1], isOverridden: true });
+            } else {
+                layouts.push({ x: 0, y: 0, width: 0, height: 0 });
+            }
+        }
+        return layouts;
+    }
+
+    private static _getWindowSize(window: Dimension, isHorizontal: boolean): number {
+        return isHorizontal ? window.height : window.width;
+    }
+}
@@ -1,40 +1,86 @@
 /***
  * Computes the positions and dimensions of items that will be rendered by the list. The output from this is utilized by viewability tracker to compute the
  * lists of visible/hidden item.
- * Note: In future, this will also become an external dependency which means you can write your own layout manager. That will enable everyone to layout their
- * views just the way they want. Current implementation is a StaggeredList
+ * This is the default layout manager and implements a StaggeredList. You can write your own by extending BaseLayoutManager and passing a factory
+ * to RecyclerListView via layoutManagerFactory prop.
+ * Layouts are computed lazily i.e, only as far as viewability tracker or getOffsetForIndex needs them. Content size for the rest of the items is
+ * estimated using average size of computed items and gets refined as more layouts are computed.
+ * In RTL mode rows are filled from the right in vertical lists. In horizontal lists x is the distance from the right edge, list renders it mirrored.
+ * Optional spacing adds gaps between rows and between items in a row along with insets before the first and after the last row.
  */
+import DataChangeSet from "../dependencies/DataChangeSet";
 import LayoutProvider, { Dimension } from "../dependencies/LayoutProvider";
 import CustomError from "../exceptions/CustomError";
+import BaseLayoutManager, { LayoutSpacing, Point, Rect } from "./BaseLayoutManager";
 
-export default class LayoutManager {
+export default class LayoutManager extends BaseLayoutManager {
     private _layoutProvider: LayoutProvider;
     private _window: Dimension;
-    private _totalHeight: number;
-    private _totalWidth: number;
     private _layouts: Rect[];
     private _isHorizontal: boolean;
-
-    constructor(layoutProvider: LayoutProvider, dimensions: Dimension, isHorizontal: boolean = false, cachedLayouts?: Rect[]) {
+    private _isRTL: boolean;
+    private _itemCount: number;
+    private _mainAxisGap: number;
+    private _crossAxisGap: number;
+    private _leadingInset: number;
+    private _trailingInset: number;
+
+    //Layouts which need to be recomputed, kept around so that overridden dimensions and rect objects can be reused
+    private _staleLayouts: Array<Rect | undefined>;
+
+    //Position where the next item will be attempted and the max main axis size in the current row, required to resume computation
+    private _nextX: number;
+    private _nextY: number;
+    private _maxBound: number;
+    private _itemDim: Dimension;
+
+    constructor(layoutProvider: LayoutProvider, dimensions: Dimension, isHorizontal: boolean = false, cachedLayouts?: Rect[], isRTL: boolean = false,
+                spacing?: LayoutSpacing) {
+        super();
+        spacing = spacing ? spacing : {};
+        this._mainAxisGap = spacing.mainAxisGap ? spacing.mainAxisGap : 0;
+        this._crossAxisGap = spacing.crossAxisGap ? spacing.crossAxisGap : 0;
+        this._leadingInset = spacing.leadingInset ? spacing.leadingInset : 0;
+        this._trailingInset = spacing.trailingInset ? spacing.trailingInset : 0;
         this._layoutProvider = layoutProvider;
+        this._layoutProvider.setWindowDimension(dimensions, isHorizontal, this._crossAxisGap);
         this._window = dimensions;
-        this._totalHeight = 0;
-        this._totalWidth = 0;
-        this._layouts = cachedLayouts ? cachedLayouts : [];
+        this._layouts = [];
         this._isHorizontal = isHorizontal;
+        this._isRTL = isRTL;
+        this._itemCount = 0;
+        this._staleLayouts = cachedLayouts ? cachedLayouts : [];
+        this._nextX = 0;
+        this._nextY = 0;
+        this._maxBound = 0;
+        this._itemDim = { height: 0, width: 0 };
+        this._resetNextPosition();
     }
 
+    //Includes insets, size of items which haven't been laid out yet is estimated
     public getLayoutDimension(): Dimension {
-        return { height: this._totalHeight, width: this._totalWidth };
+        const computedCount = this._layouts.length;
+        let mainSize = (this._isHorizontal ? this._nextX : this._nextY) + this._maxBound - this._leadingInset;
+        if (computedCount > 0 && computedCount < this._itemCount) {
+            mainSize += (this._itemCount - computedCount) * (mainSize + this._mainAxisGap) / computedCount;
+        }
+        mainSize += this._leadingInset + this._trailingInset;
+        return this._isHorizontal ? { height: this._window.height, width: mainSize } : { height: mainSize, width: this._window.width };
     }
 
     public getLayouts(): Rect[] {
         return this._layouts;
     }
 
+    //Leading inset is kept visible when scrolled to the first row, it maps to offset 0. Other rows map to their layout offset.
     public getOffsetForIndex(index: number): Point {
+        while (this._layouts.length <= index && this._layouts.length < this._itemCount) {
+            this._computeNextLayout();
+        }
         if (this._layouts.length > index) {
-            return { x: this._layouts[index].x, y: this._layouts[index].y };
+            const layout = this._layouts[index];
+            return this._isHorizontal ? { x: layout.x > this._leadingInset ? layout.x : 0, y: layout.y } :
+                { x: layout.x, y: layout.y > this._leadingInset ? layout.y : 0 };
         } else {
             throw new CustomError({
                 message: "No layout available for index: " + index,
@@ -44,9 +90,10 @@ export default class LayoutManager {
     }
 
     public overrideLayout(index: number, dim: Dimension): void {
-        const layout = this._layouts[index];
+        const layout = index < this._layouts.length ? this._layouts[index] : this._staleLayouts[index];
         if (layout) {
             layout.isOverridden = true;
+            layout.x = this._getPlacedX(this._getPlacedX(layout.x, layout.width), dim.width);
             layout.width = dim.width;
             layout.height = dim.height;
         }
@@ -60,91 +107,93 @@ export default class LayoutManager {
         }
     }
 
-    //TODO:Talha laziliy calculate in future revisions
+    public supportsLayoutSpacing(): boolean {
+        return true;
+    }
+
+    //Computes till an item starting at or beyond the offset is laid out, items after that can't start before it
+    public ensureLayoutsUntilOffset(offset: number): void {
+        let lastLayout = this._layouts[this._layouts.length - 1];
+        while (this._layouts.length < this._itemCount && (!lastLayout || (this._isHorizontal ? lastLayout.x : lastLayout.y) < offset)) {
+            lastLayout = this._computeNextLayout();
+        }
+    }
+
+    //Invalidates layouts from the given index, nothing is computed here
     public reLayoutFromIndex(startIndex: number, itemCount: number): void {
-        startIndex = this._locateFirstNeighbourIndex(startIndex);
-        let startX = 0;
-        let startY = 0;
-        let maxBound = 0;
+        startIndex = this._locateFirstNeighbourIndex(Math.min(startIndex, this._layouts.length));
+        this._itemCount = itemCount;
+        this._resetNextPosition();
+        this._maxBound = 0;
 
         const startVal = this._layouts[startIndex];
-
         if (startVal) {
-            startX = startVal.x;
-            startY = startVal.y;
-            this._pointDimensionsToRect(startVal);
+            this._nextX = this._getPlacedX(startVal.x, startVal.width);
+            this._nextY = startVal.y;
         }
 
-        const oldItemCount = this._layouts.length;
-
-        const itemDim = { height: 0, width: 0 };
-        let itemRect = null;
-
-        let oldLayout = null;
-
-        for (let i = startIndex; i < itemCount; i++) {
-            oldLayout = this._layouts[i];
-            if (oldLayout && oldLayout.isOverridden) {
-                itemDim.height = oldLayout.height;
-                itemDim.width = oldLayout.width;
-            } else {
-                this._layoutProvider.setLayoutForType(this._layoutProvider.getLayoutTypeForIndex(i), itemDim, i);
-            }
-            this.setMaxBounds(itemDim);
-            while (!this._checkBounds(startX, startY, itemDim, this._isHorizontal)) {
-                if (this._isHorizontal) {
-                    startX += maxBound;
-                    startY = 0;
-                    this._totalWidth += maxBound;
-                } else {
-                    startX = 0;
-                    startY += maxBound;
-                    this._totalHeight += maxBound;
-                }
-                maxBound = 0;
-            }
+        const computedCount = this._layouts.length;
+        for (let i = startIndex; i < computedCount; i++) {
+            this._staleLayouts[i] = this._layouts[i];
+        }
+        if (this._staleLayouts.length > itemCount) {
+            this._staleLayouts.splice(itemCount, this._staleLayouts.length - itemCount);
+        }
 
-            maxBound = this._isHorizontal ? Math.max(maxBound, itemDim.width) : Math.max(maxBound, itemDim.height);
+        //Truncating in place, viewability tracker holds a reference to this array
+        this._layouts.splice(startIndex, computedCount - startIndex);
+    }
 
-            //TODO: Talha creating array upfront will speed this up
-            if (i > oldItemCount - 1) {
-                this._layouts.push({ x: startX, y: startY, height: itemDim.height, width: itemDim.width });
-            } else {
-                itemRect = this._layouts[i];
-                itemRect.x = startX;
-                itemRect.y = startY;
-                itemRect.width = itemDim.width;
-                itemRect.height = itemDim.height;
-            }
+    //Stale layouts are shifted along with their items so that measured sizes survive inserts, removals and moves
+    public applyChangeSet(changeSet: DataChangeSet, itemCount: number): void {
+        const firstIndex = changeSet.getFirstChangedIndex();
+        this.reLayoutFromIndex(firstIndex, changeSet.getOldSize());
+        this._staleLayouts = changeSet.shiftItems(this._staleLayouts, firstIndex);
+        this._itemCount = itemCount;
+    }
 
+    private _computeNextLayout(): Rect {
+        const index = this._layouts.length;
+        const itemDim = this._itemDim;
+        const oldLayout = this._staleLayouts[index];
+        if (oldLayout && oldLayout.isOverridden) {
+            itemDim.height = oldLayout.height;
+            itemDim.width = oldLayout.width;
+        } else {
+            this._layoutProvider.setLayoutForType(this._layoutProvider.getLayoutTypeForIndex(index), itemDim, index);
+        }
+        this.setMaxBounds(itemDim);
+        while (!this._checkBounds(this._nextX, this._nextY, itemDim, this._isHorizontal)) {
             if (this._isHorizontal) {
-                startY += itemDim.height;
+                this._nextX += this._maxBound + this._mainAxisGap;
+                this._nextY = 0;
             } else {
-                startX += itemDim.width;
+                this._nextX = 0;
+                this._nextY += this._maxBound + this._mainAxisGap;
             }
+            this._maxBound = 0;
         }
-        if (oldItemCount > itemCount) {
-            this._layouts.splice(itemCount, oldItemCount - itemCount);
-        }
-        this._setFinalDimensions(maxBound);
-    }
 
-    private _pointDimensionsToRect(itemRect: Rect): void {
+        this._maxBound = this._isHorizontal ? Math.max(this._maxBound, itemDim.width) : Math.max(this._maxBound, itemDim.height);
+
+        const itemRect = oldLayout ? oldLayout : { x: 0, y: 0, height: 0, width: 0 };
+        itemRect.x = this._getPlacedX(this._nextX, itemDim.width);
+        itemRect.y = this._nextY;
+        itemRect.width = itemDim.width;
+        itemRect.height = itemDim.height;
+        this._layouts.push(itemRect);
+
         if (this._isHorizontal) {
-            this._totalWidth = itemRect.x;
+            this._nextY += itemDim.height + this._crossAxisGap;
         } else {
-            this._totalHeight = itemRect.y;
+            this._nextX += itemDim.width + this._crossAxisGap;
         }
+        return itemRect;
     }
 
-    private _setFinalDimensions(maxBound: number): void {
-        if (this._isHorizontal) {
-            this._totalHeight = this._window.height;
-            this._totalWidth += maxBound;
-        } else {
-            this._totalWidth = this._window.width;
-            this._totalHeight += maxBound;
-        }
+    private _resetNextPosition(): void {
+        this._nextX = this._isHorizontal ? this._leadingInset : 0;
+        this._nextY = this._isHorizontal ? 0 : this._leadingInset;
     }
 
     private _locateFirstNeighbourIndex(startIndex: number): number {
@@ -157,22 +206,21 @@ export default class LayoutManager {
                 if (this._layouts[i].y === 0) {
                     break;
                 }
-            } else if (this._layouts[i].x === 0) {
+            } else if (this._getPlacedX(this._layouts[i].x, this._layouts[i].width) === 0) {
                 break;
             }
         }
         return i;
     }
 
+    //Rows are computed left to right and mirrored when placed in vertical RTL mode, mirroring twice gives back the computed x
+    private _getPlacedX(x: number, width: number): number {
+        return this._isRTL && !this._isHorizontal ? this._window.width - x - width : x;
+    }
+
     private _checkBounds(itemX: number, itemY: number, itemDim: Dimension, isHorizontal: boolean): boolean {
         return isHorizontal ? (itemY + itemDim.height <= this._window.height) : (itemX + itemDim.width <= this._window.width);
     }
 }
 
-export interface Rect extends Dimension, Point {
-    isOverridden?: boolean;
-}
-export interface Point {
-    x: number;
-    y: number;
-}
+export { Point, Rect };
@@ -0,0 +1,229 @@
+/***
+ * Single column (single row in horizontal mode) layout which keeps item extents in a PrefixSumTree instead of absolute positions. Offsets are derived
+ * when read which means inserting, removing or overriding size of an item updates the tree in O(log n) rather than repositioning every following
+ * item. Layouts array still has to shift its references on inserts and removals in the middle, a plain O(n) copy with no layout work. Useful for
+ * very long feeds which get items inserted in the middle.
+ * Layouts handed out are views over the tree, viewability tracker reads offsets from the same structure. Since items never share a row layouts are
+ * sorted by offsets.
+ * Usage: layoutManagerFactory={(layoutProvider, dim, isHorizontal, cachedLayouts, isRTL) =>
+ *            new LinearLayoutManager(layoutProvider, dim, isHorizontal, cachedLayouts, isRTL)}
+ */
+import PrefixSumTree from "../../utils/PrefixSumTree";
+import DataChangeSet from "../dependencies/DataChangeSet";
+import LayoutProvider, { Dimension } from "../dependencies/LayoutProvider";
+import CustomError from "../exceptions/CustomError";
+import BaseLayoutManager, { Point, Rect } from "./BaseLayoutManager";
+import TreeRect from "./TreeRect";
+
+export default class LinearLayoutManager extends BaseLayoutManager {
+    private _layoutProvider: LayoutProvider;
+    private _window: Dimension;
+    private _isHorizontal: boolean;
+    private _isRTL: boolean;
+    private _tree: PrefixSumTree;
+    private _layouts: TreeRect[];
+    private _cachedLayouts: Rect[];
+    private _itemDim: Dimension;
+
+    constructor(layoutProvider: LayoutProvider, dimensions: Dimension, isHorizontal: boolean = false, cachedLayouts?: Rect[], isRTL: boolean = false) {
+        super();
+        this._layoutProvider = layoutProvider;
+        this._layoutProvider.setWindowDimension(dimensions, isHorizontal);
+        this._window = dimensions;
+        this._isHorizontal = isHorizontal;
+        this._isRTL = isRTL;
+        this._tree = new PrefixSumTree();
+        this._layouts = [];
+        this._cachedLayouts = cachedLayouts ? cachedLayouts : [];
+        this._itemDim = { height: 0, width: 0 };
+    }
+
+    public getLayoutDimension(): Dimension {
+        return this._isHorizontal ? { height: this._window.height, width: this._tree.getTotal() } :
+            { height: this._tree.getTotal(), width: this._window.width };
+    }
+
+    public getLayouts(): Rect[] {
+        return this._layouts;
+    }
+
+    public getOffsetForIndex(index: number): Point {
+        if (this._layouts.length > index) {
+            return { x: this._layouts[index].x, y: this._layouts[index].y };
+        } else {
+            throw new CustomError({
+                message: "No layout available for index: " + index,
+                type: "LayoutUnavailableException",
+            });
+        }
+    }
+
+    public overrideLayout(index: number, dim: Dimension): void {
+        const layout = this._layouts[index];
+        if (layout) {
+            layout.isOverridden = true;
+            this._itemDim.height = dim.height;
+            this._itemDim.width = dim.width;
+            this.setMaxBounds(this._itemDim);
+            this._setCrossSize(layout, this._getCrossSize(this._itemDim));
+            this._tree.setValue(layout.node, this._getMainSize(this._itemDim));
+        }
+    }
+
+    public setMaxBounds(itemDim: Dimension): void {
+        if (this._isHorizontal) {
+            itemDim.height = Math.min(this._window.height, itemDim.height);
+        } else {
+            itemDim.width = Math.min(this._window.width, itemDim.width);
+        }
+    }
+
+    public areLayoutsSorted(): boolean {
+        return true;
+    }
+
+    //O(log n) search over the prefix sums of item sizes
+    public findIndexForOffset(offset: number): number {
+        return this._tree.findIndexForOffset(offset);
+    }
+
+    //Existing items are only touched if their size has changed, extra items are inserted or removed at the end
+    public reLayoutFromIndex(startIndex: number, itemCount: number): void {
+        const oldItemCount = this._layouts.length;
+        startIndex = Math.max(0, startIndex);
+        this._updateLayouts(startIndex, Math.min(oldItemCount, itemCount) - startIndex);
+        if (oldItemCount > itemCount) {
+            this._removeLayouts(itemCount, oldItemCount - itemCount);
+        } else if (itemCount > oldItemCount) {
+            this._insertLayouts(oldItemCount, itemCount - oldItemCount);
+        }
+        this._cachedLayouts = [];
+    }
+
+    public spliceLayouts(startIndex: number, deleteCount: number, insertCount: number, itemCount: number): void {
+        if (this._layouts.length - deleteCount + insertCount !== itemCount || startIndex + deleteCount > this._layouts.length) {
+            this.reLayoutFromIndex(startIndex, itemCount);
+            return;
+        }
+        this._removeLayouts(startIndex, deleteCount);
+        this._insertLayouts(startIndex, insertCount);
+    }
+
+    //Removed and inserted ranges are applied to the tree directly. Moves rebuild everything from the first changed index, measured sizes are
+    //carried over to the new indexes of their items.
+    public applyChangeSet(changeSet: DataChangeSet, itemCount: number): void {
+        const oldItemCount = this._layouts.length;
+        if (oldItemCount !== changeSet.getOldSize() || itemCount !== changeSet.getNewSize()) {
+            this.reLayoutFromIndex(changeSet.getFirstChangedIndex(), itemCount);
+            return;
+        }
+        this._cachedLayouts = [];
+        if (changeSet.getMoves().length > 0) {
+            const firstIndex = changeSet.getFirstChangedIndex();
+            let oldLayout: TreeRect;
+            for (let i = firstIndex; i < itemCount; i++) {
+                oldLayout = this._layouts[changeSet.getOldIndex(i)];
+                if (oldLayout && oldLayout.isOverridden) {
+                    //Tree rects can't be read once their nodes are removed
+                    this._cachedLayouts[i] = oldLayout.toJSON();
+                }
+            }
+            this._removeLayouts(firstIndex, oldItemCount - firstIndex);
+            this._insertLayouts(firstIndex, itemCount - firstIndex);
+        } else {
+            const removals = changeSet.getRemovals();
+            for (let i = removals.length - 1; i >= 0; i--) {
+                this._removeLayouts(removals[i].index, removals[i].count);
+            }
+            const insertions = changeSet.getInsertions();
+            for (const insertion of insertions) {
+                this._insertLayouts(insertion.index, insertion.count);
+            }
+        }
+        this._cachedLayouts = [];
+        const updates = changeSet.getUpdates();
+        for (const update of updates) {
+            this._updateLayouts(update.index, update.count);
+        }
+    }
+
+    private _updateLayouts(index: number, count: number): void {
+        let layout: TreeRect;
+        let mainSize = 0;
+        for (let i = index; i < index + count; i++) {
+            layout = this._layouts[i];
+            if (!layout.isOverridden) {
+                this._readDimension(i, this._itemDim);
+                this._setCrossSize(layout, this._getCrossSize(this._itemDim));
+                mainSize = this._getMainSize(this._itemDim);
+                if (layout.node.value !== mainSize) {
+                    this._tree.setValue(layout.node, mainSize);
+                }
+            }
+        }
+    }
+
+    private _insertLayouts(index: number, count: number): void {
+        const mainSizes: number[] = [];
+        const crossSizes: number[] = [];
+        for (let i = index; i < index + count; i++) {
+            this._readDimension(i, this._itemDim);
+            mainSizes.push(this._getMainSize(this._itemDim));
+            crossSizes.push(this._getCrossSize(this._itemDim));
+        }
+        const nodes = this._tree.insert(index, mainSizes);
+        const newLayouts: TreeRect[] = [];
+        for (let i = 0; i < count; i++) {
+            newLayouts.push(new TreeRect(this._tree, nodes[i], this._isHorizontal));
+            this._setCrossSize(newLayouts[i], crossSizes[i]);
+            if (this._isCachedLayoutOverridden(index + i)) {
+                newLayouts[i].isOverridden = true;
+            }
+        }
+        //Spreading new layouts into splice overflows the call stack for large batches
+        if (index === this._layouts.length) {
+            for (const layout of newLayouts) {
+                this._layouts.push(layout);
+            }
+        } else {
+            this._layouts = this._layouts.slice(0, index).concat(newLayouts, this._layouts.slice(index));
+        }
+    }
+
+    private _removeLayouts(index: number, count: number): void {
+        if (count > 0) {
+            this._tree.remove(index, count);
+            this._layouts.splice(index, count);
+        }
+    }
+
+    //Overridden dimensions from cached layouts are honoured in the first layout pass
+    private _readDimension(index: number, itemDim: Dimension): void {
+        if (this._isCachedLayoutOverridden(index)) {
+            itemDim.height = this._cachedLayouts[index].height;
+            itemDim.width = this._cachedLayouts[index].width;
+        } else {
+            this._layoutProvider.setLayoutForType(this._layoutProvider.getLayoutTypeForIndex(index), itemDim, index);
+        }
+        this.setMaxBounds(itemDim);
+    }
+
+    private _isCachedLayoutOverridden(index: number): boolean {
+        const cachedLayout = this._cachedLayouts[index];
+        return !!cachedLayout && !!cachedLayout.isOverridden;
+    }
+
+    //Items are aligned to the right in vertical RTL mode, main axis offsets are already measured from the right in horizontal mode
+    private _setCrossSize(layout: TreeRect, crossSize: number): void {
+        layout.crossSize = crossSize;
+        layout.crossOffset = this._isRTL && !this._isHorizontal ? this._window.width - crossSize : 0;
+    }
+
+    private _getMainSize(itemDim: Dimension): number {
+        return this._isHorizontal ? itemDim.width : itemDim.height;
+    }
+
+    private _getCrossSize(itemDim: Dimension): number {
+        return this._isHorizontal ? itemDim.height : itemDim.width;
+    }
+}
@@ -0,0 +1,183 @@
+/***
+ * Masonry (waterfall) layout, every item is placed into the column which is currently the shortest. Unlike the default staggered list rows don't
+ * have to be as tall as their tallest item which avoids gaps in feeds with mixed size items. In horizontal mode columns become rows and items are
+ * placed in the row which currently ends first.
+ * Column size is fixed i.e, window size divided by column count, only main axis dimension (height in vertical mode) is read from layout provider.
+ * Note: Layouts created by this manager are not sorted by their end offsets, viewability tracker accounts for that.
+ * In RTL mode columns are filled from the right.
+ * Usage: layoutManagerFactory={(layoutProvider, dim, isHorizontal, cachedLayouts, isRTL) =>
+ *            new MasonryLayoutManager(layoutProvider, dim, 2, isHorizontal, cachedLayouts, isRTL)}
+ */
+import LayoutProvider, { Dimension } from "../dependencies/LayoutProvider";
+import CustomError from "../exceptions/CustomError";
+import BaseLayoutManager, { Point, Rect } from "./BaseLayoutManager";
+
+export default class MasonryLayoutManager extends BaseLayoutManager {
+    private _layoutProvider: LayoutProvider;
+    private _window: Dimension;
+    private _columnCount: number;
+    private _totalHeight: number;
+    private _totalWidth: number;
+    private _layouts: Rect[];
+    private _isHorizontal: boolean;
+    private _isRTL: boolean;
+
+    constructor(layoutProvider: LayoutProvider, dimensions: Dimension, columnCount: number, isHorizontal: boolean = false, cachedLayouts?: Rect[],
+                isRTL: boolean = false) {
+        super();
+        this._layoutProvider = layoutProvider;
+        this._layoutProvider.setWindowDimension(dimensions, isHorizontal);
+        this._window = dimensions;
+        this._columnCount = Math.max(1, Math.floor(columnCount));
+        this._totalHeight = 0;
+        this._totalWidth = 0;
+        this._layouts = cachedLayouts ? cachedLayouts : [];
+        this._isHorizontal = isHorizontal;
+        this._isRTL = isRTL;
+    }
+
+    public getLayoutDimension(): Dimension {
+        return { height: this._totalHeight, width: this._totalWidth };
+    }
+
+    public getLayouts(): Rect[] {
+        return this._layouts;
+    }
+
+    public getOffsetForIndex(index: number): Point {
+        if (this._layouts.length > index) {
+            return { x: this._layouts[index].x, y: this._layouts[index].y };
+        } else {
+            throw new CustomError({
+                message: "No layout available for index: " + index,
+                type: "LayoutUnavailableException",
+            });
+        }
+    }
+
+    public overrideLayout(index: number, dim: Dimension): void {
+        const layout = this._layouts[index];
+        if (layout) {
+            layout.isOverridden = true;
+            layout.width = dim.width;
+            layout.height = dim.height;
+        }
+    }
+
+    //Items always take up exactly one column
+    public setMaxBounds(itemDim: Dimension): void {
+        if (this._isHorizontal) {
+            itemDim.height = this._getColumnSize();
+        } else {
+            itemDim.width = this._getColumnSize();
+        }
+    }
+
+    public reLayoutFromIndex(startIndex: number, itemCount: number): void {
+        startIndex = Math.max(0, Math.min(startIndex, this._layouts.length, itemCount));
+        const columnSize = this._getColumnSize();
+        const columnEnds = this._getColumnEndsBeforeIndex(startIndex, columnSize);
+        const oldItemCount = this._layouts.length;
+        const itemDim = { height: 0, width: 0 };
+        let oldLayout = null;
+        let column = 0;
+        let start = 0;
+        let size = 0;
+
+        for (let i = startIndex; i < itemCount; i++) {
+            oldLayout = this._layouts[i];
+            if (oldLayout && oldLayout.isOverridden) {
+                itemDim.height = oldLayout.height;
+                itemDim.width = oldLayout.width;
+            } else {
+                this._layoutProvider.setLayoutForType(this._layoutProvider.getLayoutTypeForIndex(i), itemDim, i);
+            }
+            this.setMaxBounds(itemDim);
+
+            column = this._findShortestColumn(columnEnds);
+            start = columnEnds[column];
+            size = this._isHorizontal ? itemDim.width : itemDim.height;
+            columnEnds[column] = start + size;
+
+            if (i > oldItemCount - 1) {
+                this._layouts.push({ x: 0, y: 0, height: itemDim.height, width: itemDim.width });
+            }
+            this._placeItem(this._layouts[i], this._getColumnOffset(column, columnSize), start, itemDim);
+        }
+        if (oldItemCount > itemCount) {
+            this._layouts.splice(itemCount, oldItemCount - itemCount);
+        }
+        this._setFinalDimensions(columnEnds);
+    }
+
+    private _getColumnSize(): number {
+        return (this._isHorizontal ? this._window.height : this._window.width) / this._columnCount;
+    }
+
+    //Last item placed in a column always has the largest end in that column, walking back till every column is located is enough
+    private _getColumnEndsBeforeIndex(index: number, columnSize: number): number[] {
+        const columnEnds: number[] = [];
+        let locatedCount = 0;
+        let column = 0;
+        let layout = null;
+        for (let i = 0; i < this._columnCount; i++) {
+            columnEnds.push(-1);
+        }
+        for (let i = index - 1; i >= 0 && locatedCount < this._columnCount; i--) {
+            layout = this._layouts[i];
+            column = this._getColumnForOffset(this._isHorizontal ? layout.y : layout.x, columnSize);
+            if (columnEnds[column] < 0) {
+                columnEnds[column] = this._isHorizontal ? layout.x + layout.width : layout.y + layout.height;
+                locatedCount++;
+            }
+        }
+        for (let i = 0; i < this._columnCount; i++) {
+            columnEnds[i] = Math.max(0, columnEnds[i]);
+        }
+        return columnEnds;
+    }
+
+    //Columns are mirrored in vertical RTL mode, main axis offsets are already measured from the right in horizontal mode
+    private _getColumnOffset(column: number, columnSize: number): number {
+        return (this._isRTL && !this._isHorizontal ? this._columnCount - 1 - column : column) * columnSize;
+    }
+
+    private _getColumnForOffset(offset: number, columnSize: number): number {
+        const column = Math.min(this._columnCount - 1, Math.max(0, Math.round(offset / columnSize)));
+        return this._isRTL && !this._isHorizontal ? this._columnCount - 1 - column : column;
+    }
+
+    //Picks the first column in case of a tie so that items fill from left (or top) to right
+    private _findShortestColumn(columnEnds: number[]): number {
+        let result = 0;
+        for (let i = 1; i < columnEnds.length; i++) {
+            if (columnEnds[i] < columnEnds[result]) {
+                result = i;
+            }
+        }
+        return result;
+    }
+
+    private _placeItem(itemRect: Rect, crossOffset: number, mainOffset: number, itemDim: Dimension): void {
+        if (this._isHorizontal) {
+            itemRect.x = mainOffset;
+            itemRect.y = crossOffset;
+        } else {
+            itemRect.x = crossOffset;
+            itemRect.y = mainOffset;
+        }
+        itemRect.width = itemDim.width;
+        itemRect.height = itemDim.height;
+    }
+
+    private _setFinalDimensions(columnEnds: number[]): void {
+        const maxEnd = Math.max.apply(null, columnEnds);
+        if (this._isHorizontal) {
+            this._totalHeight = this._window.height;
+            this._totalWidth = maxEnd;
+        } else {
+            this._totalWidth = this._window.width;
+            this._totalHeight = maxEnd;
+        }
+    }
+}
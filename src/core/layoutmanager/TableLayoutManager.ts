@@ -0,0 +1,145 @@
+/***
+ * Lays out items as rows of a table with a fixed column count, item at index i goes to row floor(i / columnCount). Unlike the default layout manager
+ * rows never wrap at the window edge so content can be much wider than the window. Meant for spreadsheet like grids, use it with isTwoDimensional
+ * on RecyclerListView so that columns are virtualized as well.
+ * Cell dimensions come from layout provider, a row is as tall as its tallest cell and a cell starts where the previous cell in the same row ends.
+ * Rows are computed lazily, content height for the rest of the rows is estimated using average row height.
+ * Usage: layoutManagerFactory={(layoutProvider, dim) => new TableLayoutManager(layoutProvider, dim, 200)}
+ */
+import DataChangeSet from "../dependencies/DataChangeSet";
+import LayoutProvider, { Dimension } from "../dependencies/LayoutProvider";
+import CustomError from "../exceptions/CustomError";
+import BaseLayoutManager, { Point, Rect } from "./BaseLayoutManager";
+
+export default class TableLayoutManager extends BaseLayoutManager {
+    private _layoutProvider: LayoutProvider;
+    private _window: Dimension;
+    private _columnCount: number;
+    private _layouts: Rect[];
+    private _itemCount: number;
+
+    //Layouts which need to be recomputed, kept around so that overridden dimensions and rect objects can be reused
+    private _staleLayouts: Array<Rect | undefined>;
+
+    //Start of the next row and width of the widest row computed so far
+    private _nextY: number;
+    private _totalWidth: number;
+    private _itemDim: Dimension;
+
+    constructor(layoutProvider: LayoutProvider, dimensions: Dimension, columnCount: number, cachedLayouts?: Rect[]) {
+        super();
+        this._layoutProvider = layoutProvider;
+        this._layoutProvider.setWindowDimension(dimensions, false);
+        this._window = dimensions;
+        this._columnCount = Math.max(1, Math.floor(columnCount));
+        this._layouts = [];
+        this._itemCount = 0;
+        this._staleLayouts = cachedLayouts ? cachedLayouts : [];
+        this._nextY = 0;
+        this._totalWidth = 0;
+        this._itemDim = { height: 0, width: 0 };
+    }
+
+    public getLayoutDimension(): Dimension {
+        const computedRowCount = Math.ceil(this._layouts.length / this._columnCount);
+        const rowCount = Math.ceil(this._itemCount / this._columnCount);
+        let height = this._nextY;
+        if (computedRowCount > 0 && computedRowCount < rowCount) {
+            height += (rowCount - computedRowCount) * this._nextY / computedRowCount;
+        }
+        return { height, width: Math.max(this._totalWidth, this._window.width) };
+    }
+
+    public getLayouts(): Rect[] {
+        return this._layouts;
+    }
+
+    public getOffsetForIndex(index: number): Point {
+        while (this._layouts.length <= index && this._layouts.length < this._itemCount) {
+            this._computeNextRow();
+        }
+        if (this._layouts.length > index) {
+            return { x: this._layouts[index].x, y: this._layouts[index].y };
+        } else {
+            throw new CustomError({
+                message: "No layout available for index: " + index,
+                type: "LayoutUnavailableException",
+            });
+        }
+    }
+
+    public overrideLayout(index: number, dim: Dimension): void {
+        const layout = index < this._layouts.length ? this._layouts[index] : this._staleLayouts[index];
+        if (layout) {
+            layout.isOverridden = true;
+            layout.width = dim.width;
+            layout.height = dim.height;
+        }
+    }
+
+    public ensureLayoutsUntilOffset(offset: number): void {
+        while (this._layouts.length < this._itemCount && this._nextY < offset) {
+            this._computeNextRow();
+        }
+    }
+
+    //Invalidates layouts from the row containing the given index, nothing is computed here
+    public reLayoutFromIndex(startIndex: number, itemCount: number): void {
+        startIndex = Math.floor(Math.min(startIndex, this._layouts.length) / this._columnCount) * this._columnCount;
+        this._itemCount = itemCount;
+        const startVal = this._layouts[startIndex];
+        this._nextY = startVal ? startVal.y : 0;
+
+        const computedCount = this._layouts.length;
+        for (let i = startIndex; i < computedCount; i++) {
+            this._staleLayouts[i] = this._layouts[i];
+        }
+        if (this._staleLayouts.length > itemCount) {
+            this._staleLayouts.splice(itemCount, this._staleLayouts.length - itemCount);
+        }
+
+        //Truncating in place, viewability tracker holds a reference to this array
+        this._layouts.splice(startIndex, computedCount - startIndex);
+        this._totalWidth = 0;
+        for (let i = this._columnCount - 1; i < startIndex; i += this._columnCount) {
+            this._totalWidth = Math.max(this._totalWidth, this._layouts[i].x + this._layouts[i].width);
+        }
+    }
+
+    //Stale layouts are shifted along with their items so that measured sizes survive inserts, removals and moves
+    public applyChangeSet(changeSet: DataChangeSet, itemCount: number): void {
+        const firstIndex = changeSet.getFirstChangedIndex();
+        this.reLayoutFromIndex(firstIndex, changeSet.getOldSize());
+        this._staleLayouts = changeSet.shiftItems(this._staleLayouts, firstIndex);
+        this._itemCount = itemCount;
+    }
+
+    private _computeNextRow(): void {
+        const rowStart = this._layouts.length;
+        const rowEnd = Math.min(rowStart + this._columnCount, this._itemCount);
+        const itemDim = this._itemDim;
+        let x = 0;
+        let rowHeight = 0;
+        let oldLayout: Rect | undefined;
+        let itemRect: Rect;
+        for (let i = rowStart; i < rowEnd; i++) {
+            oldLayout = this._staleLayouts[i];
+            if (oldLayout && oldLayout.isOverridden) {
+                itemDim.height = oldLayout.height;
+                itemDim.width = oldLayout.width;
+            } else {
+                this._layoutProvider.setLayoutForType(this._layoutProvider.getLayoutTypeForIndex(i), itemDim, i);
+            }
+            itemRect = oldLayout ? oldLayout : { x: 0, y: 0, height: 0, width: 0 };
+            itemRect.x = x;
+            itemRect.y = this._nextY;
+            itemRect.width = itemDim.width;
+            itemRect.height = itemDim.height;
+            this._layouts.push(itemRect);
+            x += itemDim.width;
+            rowHeight = Math.max(rowHeight, itemDim.height);
+        }
+        this._nextY += rowHeight;
+        this._totalWidth = Math.max(this._totalWidth, x);
+    }
+}
@@ -0,0 +1,42 @@
+/***
+ * Rect backed by a PrefixSumTree node, used by LinearLayoutManager. Size along the main axis is the node value and position is the sum of all values
+ * before the node, so layouts never need to be repositioned when items before them change.
+ */
+import PrefixSumTree, { PrefixSumNode } from "../../utils/PrefixSumTree";
+import { Rect } from "./BaseLayoutManager";
+
+export default class TreeRect implements Rect {
+    public isOverridden?: boolean;
+    public node: PrefixSumNode;
+    public crossSize: number = 0;
+    public crossOffset: number = 0;
+    private _tree: PrefixSumTree;
+    private _isHorizontal: boolean;
+
+    constructor(tree: PrefixSumTree, node: PrefixSumNode, isHorizontal: boolean) {
+        this._tree = tree;
+        this.node = node;
+        this._isHorizontal = isHorizontal;
+    }
+
+    public get x(): number {
+        return this._isHorizontal ? this._tree.getSumBefore(this.node) : this.crossOffset;
+    }
+
+    public get y(): number {
+        return this._isHorizontal ? this.crossOffset : this._tree.getSumBefore(this.node);
+    }
+
+    public get width(): number {
+        return this._isHorizontal ? this.node.value : this.crossSize;
+    }
+
+    public get height(): number {
+        return this._isHorizontal ? this.crossSize : this.node.value;
+    }
+
+    //Layouts get cached as JSON, accessors need to be serialized as plain values
+    public toJSON(): Rect {
+        return { x: this.x, y: this.y, height: this.height, width: this.width, isOverridden: this.isOverridden };
+    }
+}
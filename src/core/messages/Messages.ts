@@ -1,5 +1,7 @@
 const Messages: {[key: string]: string} = {
     ERROR_LISTVIEW_VALIDATION : "missing datasource or layout provider, cannot proceed without it",
     WARN_SCROLL_TO_INDEX: "scrollTo was called before RecyclerListView was measured, please wait for the mount to finish",
+    WARN_SCROLL_TO_SECTION: "scrollToSection requires a SectionDataProvider",
+    WARN_SCROLL_TO_SOURCE_INDEX: "scrollToSourceIndex requires a DerivedDataProvider",
 };
 export default Messages;
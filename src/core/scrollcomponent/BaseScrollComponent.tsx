@@ -11,9 +11,17 @@ export interface ScrollComponentProps {
     externalScrollView?: BaseScrollView;
     isHorizontal?: boolean;
     renderFooter?: () => JSX.Element | JSX.Element[] | null;
+    renderHeader?: () => JSX.Element | JSX.Element[] | null;
+    onHeaderSizeChanged?: (dimensions: Dimension) => void;
     scrollThrottle?: number;
     distanceFromWindow?: number;
     useWindowScroll?: boolean;
+    isRTL?: boolean;
+    trailingInset?: number;
+    isTwoDimensional?: boolean;
+
+    //Passed through from RecyclerListView props to the underlying scroll view on react native
+    onContentSizeChange?: (width: number, height: number) => void;
 }
 export default abstract class BaseScrollComponent extends React.Component<ScrollComponentProps, {}> {
     public abstract scrollTo(x: number, y: number, animate: boolean): void;
@@ -10,6 +10,8 @@ export interface ScrollViewDefaultProps {
     style?: CSSProperties | null;
     distanceFromWindow: number;
     useWindowScroll: boolean;
+    isRTL?: boolean;
+    isTwoDimensional?: boolean;
 }
 export interface ScrollEvent {
     nativeEvent: {
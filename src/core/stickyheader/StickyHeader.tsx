@@ -0,0 +1,74 @@
+import * as React from "react";
+import BinarySearch from "../../utils/BinarySearch";
+import { Rect } from "../layoutmanager/BaseLayoutManager";
+
+/***
+ * Keeps the most recently passed header pinned to the top (left in horizontal mode) of the visible window. The next header pushes the pinned one out
+ * of the way as it approaches. Pinned header is rendered as an overlay inside the scrollable content so it works with every scroll component including
+ * window scrolling on web. Position is updated on every scroll which is why this is a separate component, only the overlay re-renders.
+ * Header indexes are expected to be sorted, layouts are read from layout manager via getLayoutForIndex.
+ */
+export interface StickyHeaderProps {
+    stickyHeaderIndices: number[];
+    isHorizontal?: boolean;
+    getLayoutForIndex: (index: number) => Rect | undefined;
+    renderHeader: (index: number, x: number, y: number) => JSX.Element | null;
+}
+export interface StickyHeaderState {
+    index: number;
+    x: number;
+    y: number;
+}
+
+export default class StickyHeader extends React.Component<StickyHeaderProps, StickyHeaderState> {
+    private _offset: number = 0;
+
+    constructor(props: StickyHeaderProps) {
+        super(props);
+        this._getHeaderStart = this._getHeaderStart.bind(this);
+        this.state = {
+            index: -1,
+            x: 0,
+            y: 0,
+        };
+    }
+
+    public onScroll(offset: number): void {
+        this._offset = offset;
+        this.refresh();
+    }
+
+    //Call if layouts change without a scroll e.g, data changes or relayouts
+    public refresh(): void {
+        const headers = this.props.stickyHeaderIndices;
+        const position = BinarySearch.findFirstHigherValueIndex(headers.length, this._offset, this._getHeaderStart) - 1;
+        const layout = position >= 0 ? this.props.getLayoutForIndex(headers[position]) : undefined;
+        let newState: StickyHeaderState = { index: -1, x: 0, y: 0 };
+        if (layout) {
+            let mainOffset = this._offset;
+            const nextLayout = position + 1 < headers.length ? this.props.getLayoutForIndex(headers[position + 1]) : undefined;
+            if (nextLayout) {
+                mainOffset = Math.min(mainOffset, this._getStart(nextLayout) - (this.props.isHorizontal ? layout.width : layout.height));
+            }
+            newState = this.props.isHorizontal ? { index: headers[position], x: mainOffset, y: layout.y } :
+                { index: headers[position], x: layout.x, y: mainOffset };
+        }
+        if (newState.index !== this.state.index || newState.x !== this.state.x || newState.y !== this.state.y) {
+            this.setState(newState);
+        }
+    }
+
+    public render(): JSX.Element | null {
+        return this.state.index >= 0 ? this.props.renderHeader(this.state.index, this.state.x, this.state.y) : null;
+    }
+
+    //Headers without a layout are treated as infinitely far so that they're never pinned
+    private _getHeaderStart(position: number): number {
+        const layout = this.props.getLayoutForIndex(this.props.stickyHeaderIndices[position]);
+        return layout ? this._getStart(layout) : Number.MAX_VALUE;
+    }
+
+    private _getStart(layout: Rect): number {
+        return this.props.isHorizontal ? layout.x : layout.y;
+    }
+}
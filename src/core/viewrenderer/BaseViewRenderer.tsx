@@ -6,6 +6,8 @@ import ItemAnimator from "../ItemAnimator";
  * View renderer is responsible for creating a container of size provided by LayoutProvider and render content inside it.
  * Also enforces a logic to prevent re renders. RecyclerListView keeps moving these ViewRendereres around using transforms to enable recycling.
  * View renderer will only update if its position, dimensions or given data changes. Make sure to have a relevant shouldComponentUpdate as well.
+ * Output of child renderer is reused when only position or dimensions change, it's called again on data, type, extended state or selection changes
+ * (and index changes if renderOnIndexChange is set).
  * This is second of the two things recycler works on. Implemented both for web and react native.
  */
 export interface ViewRendererProps<T> {
@@ -13,7 +15,7 @@ export interface ViewRendererProps<T> {
     y: number;
     height: number;
     width: number;
-    childRenderer: (type: string | number, data: T, index: number, extendedState?: object) => JSX.Element | JSX.Element[] | null;
+    childRenderer: (type: string | number, data: T, index: number, extendedState?: object, isSelected?: boolean) => JSX.Element | JSX.Element[] | null;
     layoutType: string | number;
     dataHasChanged: (r1: T, r2: T) => boolean;
     onSizeChanged: (dim: Dimension, index: number) => void;
@@ -24,8 +26,13 @@ export interface ViewRendererProps<T> {
     isHorizontal?: boolean;
     extendedState?: object;
     layoutProvider?: LayoutProvider;
+    isSelected?: boolean;
+    renderOnIndexChange?: boolean;
 }
 export default abstract class BaseViewRenderer<T> extends React.Component<ViewRendererProps<T>, {}> {
+    private _renderedChild: JSX.Element | JSX.Element[] | null = null;
+    private _isChildStale: boolean = true;
+
     public shouldComponentUpdate(newProps: ViewRendererProps<any>): boolean {
         const hasLayoutChanged = this.props.x !== newProps.x ||
             this.props.y !== newProps.y ||
@@ -34,8 +41,17 @@ export default abstract class BaseViewRenderer<T> extends React.Component<ViewRe
             this.props.layoutProvider !== newProps.layoutProvider;
 
         const hasExtendedStateChanged = this.props.extendedState !== newProps.extendedState;
+
+        //Cells stay bound to the same item when it moves, moved items are only re-laid out unless child renderer depends on the index
+        const hasIndexChanged = !!newProps.renderOnIndexChange && this.props.index !== newProps.index;
+        const hasSelectionChanged = this.props.isSelected !== newProps.isSelected;
         const hasDataChanged = (this.props.dataHasChanged && this.props.dataHasChanged(this.props.data, newProps.data));
-        const shouldUpdate = hasLayoutChanged || hasDataChanged || hasExtendedStateChanged;
+        const hasTypeChanged = this.props.layoutType !== newProps.layoutType || this.props.layoutProvider !== newProps.layoutProvider;
+        const hasChildChanged = hasDataChanged || hasExtendedStateChanged || hasIndexChanged || hasSelectionChanged || hasTypeChanged;
+        const shouldUpdate = hasLayoutChanged || hasChildChanged;
+        if (hasChildChanged) {
+            this._isChildStale = true;
+        }
 
         if (hasDataChanged) {
             newProps.itemAnimator.animateWillUpdate(this.props.x, this.props.y, newProps.x, newProps.y, this.getRef() as object, newProps.index);
@@ -55,6 +71,11 @@ export default abstract class BaseViewRenderer<T> extends React.Component<ViewRe
     }
     protected abstract getRef(): object | null;
     protected renderChild(): JSX.Element | JSX.Element[] | null {
-        return this.props.childRenderer(this.props.layoutType, this.props.data, this.props.index, this.props.extendedState);
+        if (this._isChildStale) {
+            this._renderedChild = this.props.childRenderer(this.props.layoutType, this.props.data, this.props.index, this.props.extendedState,
+                this.props.isSelected);
+            this._isChildStale = false;
+        }
+        return this._renderedChild;
     }
 }
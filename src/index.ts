@@ -1,15 +1,45 @@
+import AsyncContextProvider from "./core/dependencies/AsyncContextProvider";
 import ContextProvider from "./core/dependencies/ContextProvider";
+import DataChangeSet from "./core/dependencies/DataChangeSet";
 import DataProvider from "./core/dependencies/DataProvider";
+import DerivedDataProvider from "./core/dependencies/DerivedDataProvider";
+import GroupedDataProvider from "./core/dependencies/GroupedDataProvider";
 import LayoutProvider from "./core/dependencies/LayoutProvider";
+import LocalPageFetcher from "./core/dependencies/LocalPageFetcher";
+import PagedDataProvider from "./core/dependencies/PagedDataProvider";
+import PageFetcher from "./core/dependencies/PageFetcher";
+import GridLayoutProvider from "./core/dependencies/GridLayoutProvider";
+import SectionDataProvider from "./core/dependencies/SectionDataProvider";
+import SectionLayoutProvider from "./core/dependencies/SectionLayoutProvider";
 import RecyclerListView from "./core/RecyclerListView";
+import BaseLayoutManager from "./core/layoutmanager/BaseLayoutManager";
+import LayoutManager from "./core/layoutmanager/LayoutManager";
+import LinearLayoutManager from "./core/layoutmanager/LinearLayoutManager";
+import MasonryLayoutManager from "./core/layoutmanager/MasonryLayoutManager";
+import TableLayoutManager from "./core/layoutmanager/TableLayoutManager";
 import BaseScrollView from "./core/scrollcomponent/BaseScrollView";
 import { BaseItemAnimator } from "./core/ItemAnimator";
 
 export {
+    AsyncContextProvider,
     ContextProvider,
+    DataChangeSet,
     DataProvider,
+    DerivedDataProvider,
+    GroupedDataProvider,
     LayoutProvider,
+    PagedDataProvider,
+    PageFetcher,
+    LocalPageFetcher,
+    GridLayoutProvider,
+    SectionDataProvider,
+    SectionLayoutProvider,
     RecyclerListView,
     BaseItemAnimator,
     BaseScrollView,
+    BaseLayoutManager,
+    LayoutManager,
+    LinearLayoutManager,
+    MasonryLayoutManager,
+    TableLayoutManager,
 };
@@ -12,20 +12,36 @@ import TSCast from "../../../utils/TSCast";
  * The responsibility of a scroll component is to report its size, scroll events and provide a way to scroll to a given offset.
  * RecyclerListView works on top of this interface and doesn't care about the implementation. To support web we only had to provide
  * another component written on top of web elements
+ * In horizontal RTL mode content is aligned to the right and x offsets are converted to be measured from the right edge. When content grows the
+ * distance from the right edge is maintained.
+ * In two dimensional mode content is wrapped in a nested scroll view along the cross axis, since Android scroll views only scroll in one direction.
+ * Offsets from both scroll views are combined and reported together.
  */
 
 export default class ScrollComponent extends BaseScrollComponent {
     public static defaultProps = {
         contentHeight: 0,
         contentWidth: 0,
+        trailingInset: 0,
         externalScrollView: TSCast.cast(ScrollView), //TSI
         isHorizontal: false,
+        isRTL: false,
+        isTwoDimensional: false,
         scrollThrottle: 16,
     };
 
     private _height: number;
     private _width: number;
     private _isSizeChangedCalledOnce: boolean;
+
+    //Total scrollable width including footer and last reported x offset (measured from the right), only tracked in horizontal RTL mode
+    private _contentWidth: number;
+    private _offsetX: number;
+    //Last offsets reported by outer and nested scroll views, only tracked in two dimensional mode
+    private _mainOffset: number;
+    private _crossOffset: number;
+    private _crossScrollViewRef: ScrollView | null = null;
+
     private _dummyOnLayout: (event: LayoutChangeEvent) => void = TSCast.cast(null);
     private _scrollViewRef: ScrollView | null = null;
 
@@ -33,21 +49,46 @@ export default class ScrollComponent extends BaseScrollComponent {
         super(args);
         this._onScroll = this._onScroll.bind(this);
         this._onLayout = this._onLayout.bind(this);
+        this._onContentSizeChange = this._onContentSizeChange.bind(this);
+        this._onCrossScroll = this._onCrossScroll.bind(this);
+        this._onHeaderLayout = this._onHeaderLayout.bind(this);
+        this._setCrossScrollViewRef = this._setCrossScrollViewRef.bind(this);
 
         this._height = 0;
         this._width = 0;
+        this._contentWidth = 0;
+        this._offsetX = 0;
+        this._mainOffset = 0;
+        this._crossOffset = 0;
 
         this._isSizeChangedCalledOnce = false;
     }
 
     public scrollTo(x: number, y: number, isAnimated: boolean): void {
         if (this._scrollViewRef) {
+            if (this._isRTLHorizontal()) {
+                x = Math.max(0, this._contentWidth - this._width - x);
+            }
             this._scrollViewRef.scrollTo({x, y, animated: isAnimated});
         }
+        if (this._crossScrollViewRef) {
+            this._crossScrollViewRef.scrollTo(this.props.isHorizontal ? {x: 0, y, animated: isAnimated} : {x, y: 0, animated: isAnimated});
+        }
     }
 
     public render(): JSX.Element {
         const Scroller = TSCast.cast<ScrollView>(this.props.externalScrollView); //TSI
+        const footerInset = this._getFooterInset();
+        const contentView = (
+            <View style={{
+                height: Math.max(0, this.props.contentHeight - (this.props.isHorizontal ? 0 : footerInset)),
+                width: Math.max(0, this.props.contentWidth - (this.props.isHorizontal ? footerInset : 0)),
+            }}>
+                {this._isRTLHorizontal() ? <View style={{position: "absolute", right: 0, top: 0}}>
+                    {this.props.children}
+                </View> : this.props.children}
+            </View>
+        );
         return (
             <Scroller ref={(scrollView: any) => this._scrollViewRef = scrollView as (ScrollView | null)}
                       removeClippedSubviews={false}
@@ -55,26 +96,98 @@ export default class ScrollComponent extends BaseScrollComponent {
                       {...this.props}
                       horizontal={this.props.isHorizontal}
                       onScroll={this._onScroll}
+                      onContentSizeChange={this._onContentSizeChange}
                       onLayout={(!this._isSizeChangedCalledOnce || this.props.canChangeSize) ? this._onLayout : this._dummyOnLayout}>
-                <View style={{flexDirection: this.props.isHorizontal ? "row" : "column"}}>
-                    <View style={{
-                        height: this.props.contentHeight,
-                        width: this.props.contentWidth,
-                    }}>
-                        {this.props.children}
-                    </View>
-                    {this.props.renderFooter ? this.props.renderFooter() : null}
+                <View style={{flexDirection: this.props.isHorizontal ? (this.props.isRTL ? "row-reverse" : "row") : "column"}}>
+                    {this.props.renderHeader ? <View onLayout={this._onHeaderLayout}>
+                        {this.props.renderHeader()}
+                    </View> : null}
+                    {this.props.isTwoDimensional ? this._renderCrossScroller(contentView) : contentView}
+                    {this.props.renderFooter ? <View style={this.props.isHorizontal ?
+                        (this.props.isRTL ? { paddingLeft: footerInset } : { paddingRight: footerInset }) : { paddingBottom: footerInset }}>
+                        {this.props.renderFooter()}
+                    </View> : null}
                 </View>
             </Scroller>
         );
     }
 
+    //onLayout fires whenever header's size changes, initial layout is reported as well
+    private _onHeaderLayout(event: LayoutChangeEvent): void {
+        if (this.props.onHeaderSizeChanged) {
+            this.props.onHeaderSizeChanged(event.nativeEvent.layout);
+        }
+    }
+
+    private _renderCrossScroller(contentView: JSX.Element): JSX.Element {
+        return (
+            <ScrollView ref={this._setCrossScrollViewRef}
+                        horizontal={!this.props.isHorizontal}
+                        removeClippedSubviews={false}
+                        scrollEventThrottle={this.props.scrollThrottle}
+                        onScroll={this._onCrossScroll}>
+                {contentView}
+            </ScrollView>
+        );
+    }
+
+    private _setCrossScrollViewRef(scrollView: any): void {
+        this._crossScrollViewRef = scrollView as (ScrollView | null);
+    }
+
+    private _onCrossScroll(event?: NativeSyntheticEvent<NativeScrollEvent>): void {
+        if (event) {
+            const contentOffset = event.nativeEvent.contentOffset;
+            this._crossOffset = this.props.isHorizontal ? contentOffset.y : contentOffset.x;
+            this._reportTwoDimensionalScroll(event);
+        }
+    }
+
+    private _reportTwoDimensionalScroll(event: NativeSyntheticEvent<NativeScrollEvent>): void {
+        if (this.props.isHorizontal) {
+            this.props.onScroll(this._mainOffset, this._crossOffset, event);
+        } else {
+            this.props.onScroll(this._crossOffset, this._mainOffset, event);
+        }
+    }
+
     private _onScroll(event?: NativeSyntheticEvent<NativeScrollEvent>): void {
         if (event) {
-            this.props.onScroll(event.nativeEvent.contentOffset.x, event.nativeEvent.contentOffset.y, event);
+            if (this.props.isTwoDimensional) {
+                const contentOffset = event.nativeEvent.contentOffset;
+                this._mainOffset = this.props.isHorizontal ? contentOffset.x : contentOffset.y;
+                this._reportTwoDimensionalScroll(event);
+            } else if (this._isRTLHorizontal()) {
+                const nativeEvent = event.nativeEvent;
+                this._offsetX = nativeEvent.contentSize.width - nativeEvent.layoutMeasurement.width - nativeEvent.contentOffset.x;
+                this.props.onScroll(this._offsetX, nativeEvent.contentOffset.y, event);
+            } else {
+                this.props.onScroll(event.nativeEvent.contentOffset.x, event.nativeEvent.contentOffset.y, event);
+            }
         }
     }
 
+    //Content grows towards the left, scrolling to the last known offset keeps the distance from the right edge same. Also takes the list to its
+    //right edge initially. Consumers may listen to content size changes as well.
+    private _onContentSizeChange(width: number, height: number): void {
+        if (this._isRTLHorizontal() && this._contentWidth !== width) {
+            this._contentWidth = width;
+            this.scrollTo(this._offsetX, 0, false);
+        }
+        if (this.props.onContentSizeChange) {
+            this.props.onContentSizeChange(width, height);
+        }
+    }
+
+    //Trailing inset is part of the content size, it moves after the footer if there is one
+    private _getFooterInset(): number {
+        return this.props.renderFooter && this.props.trailingInset ? this.props.trailingInset : 0;
+    }
+
+    private _isRTLHorizontal(): boolean {
+        return !!this.props.isRTL && !!this.props.isHorizontal;
+    }
+
     private _onLayout(event: LayoutChangeEvent): void {
         if (this._height !== event.nativeEvent.layout.height || this._width !== event.nativeEvent.layout.width) {
             this._height = event.nativeEvent.layout.height;
@@ -0,0 +1,76 @@
+/***
+ * One ResizeObserver shared by every cell and scroll container. Browsers deliver all resizes of a frame in a single callback, so measurements of
+ * all cells reach the list together and result in a single relayout.
+ * Where ResizeObserver isn't available isSupported returns false and callers should fall back to measuring on mount/update.
+ */
+interface ResizeObserverLike {
+    observe(target: Element): void;
+    unobserve(target: Element): void;
+}
+interface ResizeObserverEntryLike {
+    target: Element;
+}
+type ResizeObserverConstructor = new (callback: (entries: ResizeObserverEntryLike[]) => void) => ResizeObserverLike;
+type WindowWithResizeObserver = Window & { ResizeObserver?: ResizeObserverConstructor };
+
+export default class SharedResizeObserver {
+    public static isSupported(): boolean {
+        return !!SharedResizeObserver._getConstructor();
+    }
+
+    //Callback is invoked after the element resizes, read the new size from the element itself. Same element can be observed by multiple
+    //callbacks e.g, document element by lists using window scroll.
+    public static observe(element: Element, callback: () => void): void {
+        const observer = SharedResizeObserver._getObserver();
+        if (observer) {
+            const callbacks = SharedResizeObserver._callbacks.get(element);
+            if (callbacks) {
+                callbacks.push(callback);
+            } else {
+                SharedResizeObserver._callbacks.set(element, [callback]);
+                observer.observe(element);
+            }
+        }
+    }
+
+    public static unobserve(element: Element, callback: () => void): void {
+        const observer = SharedResizeObserver._getObserver();
+        const callbacks = SharedResizeObserver._callbacks.get(element);
+        if (observer && callbacks) {
+            const index = callbacks.indexOf(callback);
+            if (index > -1) {
+                callbacks.splice(index, 1);
+            }
+            if (callbacks.length === 0) {
+                SharedResizeObserver._callbacks.delete(element);
+                observer.unobserve(element);
+            }
+        }
+    }
+
+    private static _observer: ResizeObserverLike | null = null;
+    private static _callbacks: Map<Element, Array<() => void>> = new Map<Element, Array<() => void>>();
+
+    private static _getConstructor(): ResizeObserverConstructor | undefined {
+        return typeof window !== "undefined" ? (window as WindowWithResizeObserver).ResizeObserver : undefined;
+    }
+
+    private static _getObserver(): ResizeObserverLike | null {
+        const ResizeObserverClass = SharedResizeObserver._getConstructor();
+        if (!SharedResizeObserver._observer && ResizeObserverClass) {
+            SharedResizeObserver._observer = new ResizeObserverClass(SharedResizeObserver._onResize);
+        }
+        return SharedResizeObserver._observer;
+    }
+
+    private static _onResize(entries: ResizeObserverEntryLike[]): void {
+        const count = entries.length;
+        let callbacks: Array<() => void> | undefined;
+        for (let i = 0; i < count; i++) {
+            callbacks = SharedResizeObserver._callbacks.get(entries[i].target);
+            if (callbacks) {
+                callbacks.slice().forEach((callback) => callback());
+            }
+        }
+    }
+}
@@ -2,6 +2,7 @@ import * as React from "react";
 import { Dimension } from "../../../core/dependencies/LayoutProvider";
 import BaseScrollComponent, { ScrollComponentProps } from "../../../core/scrollcomponent/BaseScrollComponent";
 import BaseScrollView, { ScrollEvent } from "../../../core/scrollcomponent/BaseScrollView";
+import SharedResizeObserver from "../SharedResizeObserver";
 import ScrollViewer from "./ScrollViewer";
 /***
  * The responsibility of a scroll component is to report its size, scroll events and provide a way to scroll to a given offset.
@@ -13,19 +14,25 @@ export default class ScrollComponent extends BaseScrollComponent {
     public static defaultProps = {
         contentHeight: 0,
         contentWidth: 0,
+        trailingInset: 0,
         externalScrollView: ScrollViewer,
         isHorizontal: false,
+        isRTL: false,
         scrollThrottle: 16,
         canChangeSize: false,
     };
     private _height: number;
     private _width: number;
     private _scrollViewRef: BaseScrollView | null = null;
+    private _headerRef: HTMLDivElement | null = null;
+    private _headerDim: Dimension = { height: 0, width: 0 };
 
     constructor(args: ScrollComponentProps) {
         super(args);
         this._onScroll = this._onScroll.bind(this);
         this._onSizeChanged = this._onSizeChanged.bind(this);
+        this._setHeaderRef = this._setHeaderRef.bind(this);
+        this._measureHeader = this._measureHeader.bind(this);
 
         this._height = 0;
         this._width = 0;
@@ -37,32 +44,135 @@ export default class ScrollComponent extends BaseScrollComponent {
         }
     }
 
+    public componentDidMount(): void {
+        this._measureHeader();
+    }
+
+    public componentDidUpdate(): void {
+        this._measureHeader();
+    }
+
+    public componentWillUnmount(): void {
+        if (this._headerRef) {
+            SharedResizeObserver.unobserve(this._headerRef, this._measureHeader);
+        }
+    }
+
     public render(): JSX.Element {
         const Scroller = this.props.externalScrollView as any; //TSI
+        const footerInset = this._getFooterInset();
+        if (this.props.isRTL && this.props.isHorizontal) {
+            return this._renderRTLHorizontal(Scroller, footerInset);
+        }
+        if (this.props.isHorizontal) {
+            return this._renderHorizontal(Scroller, footerInset);
+        }
         return (
             <Scroller ref={(scrollView: BaseScrollView) => this._scrollViewRef = scrollView as (BaseScrollView | null)}
                 {...this.props}
-                horizontal={this.props.isHorizontal}
+                horizontal={false}
                 onScroll={this._onScroll}
                 onSizeChanged={this._onSizeChanged}>
-
+                {this._renderHeader()}
                 <div style={{
-                    height: this.props.contentHeight,
+                    height: Math.max(0, this.props.contentHeight - footerInset),
                     width: this.props.contentWidth,
                 }}>
                     {this.props.children}
                 </div>
-                {this.props.renderFooter ? <div style={this.props.isHorizontal ? {
-                    left: this.props.contentWidth,
-                    position: "absolute",
-                    top: 0,
-                } : undefined}>
+                {this.props.renderFooter ? <div style={{ paddingBottom: footerInset }}>
                     {this.props.renderFooter()}
                 </div> : null}
             </Scroller>
         );
     }
 
+    private _renderHorizontal(Scroller: any, footerInset: number): JSX.Element {
+        return (
+            <Scroller ref={(scrollView: BaseScrollView) => this._scrollViewRef = scrollView as (BaseScrollView | null)}
+                {...this.props}
+                horizontal={true}
+                onScroll={this._onScroll}
+                onSizeChanged={this._onSizeChanged}>
+                <div style={{ alignItems: "flex-start", display: "flex", flexDirection: "row" }}>
+                    {this._renderHeader()}
+                    <div style={{
+                        flexShrink: 0,
+                        height: this.props.contentHeight,
+                        position: "relative",
+                        width: Math.max(0, this.props.contentWidth - footerInset),
+                    }}>
+                        {this.props.children}
+                    </div>
+                    {this.props.renderFooter ? <div style={{ flexShrink: 0, paddingRight: footerInset }}>
+                        {this.props.renderFooter()}
+                    </div> : null}
+                </div>
+            </Scroller>
+        );
+    }
+
+    //Footer comes first since list starts at the right edge. Children are positioned relative to the right edge of the content, origin is placed there.
+    private _renderRTLHorizontal(Scroller: any, footerInset: number): JSX.Element {
+        return (
+            <Scroller ref={(scrollView: BaseScrollView) => this._scrollViewRef = scrollView as (BaseScrollView | null)}
+                {...this.props}
+                horizontal={true}
+                onScroll={this._onScroll}
+                onSizeChanged={this._onSizeChanged}>
+                <div style={{ alignItems: "flex-start", display: "flex", flexDirection: "row" }}>
+                    {this.props.renderFooter ? <div style={{ flexShrink: 0, paddingLeft: footerInset }}>
+                        {this.props.renderFooter()}
+                    </div> : null}
+                    <div style={{
+                        flexShrink: 0,
+                        height: this.props.contentHeight,
+                        position: "relative",
+                        width: Math.max(0, this.props.contentWidth - footerInset),
+                    }}>
+                        <div style={{ position: "absolute", right: 0, top: 0 }}>
+                            {this.props.children}
+                        </div>
+                    </div>
+                    {this._renderHeader()}
+                </div>
+            </Scroller>
+        );
+    }
+
+    private _renderHeader(): JSX.Element | null {
+        return this.props.renderHeader ? <div ref={this._setHeaderRef} style={{ flexShrink: 0 }}>
+            {this.props.renderHeader()}
+        </div> : null;
+    }
+
+    //Header can resize on its own e.g, an expanding search bar, it's observed where ResizeObserver is available
+    private _setHeaderRef(div: HTMLDivElement | null): void {
+        if (this._headerRef && this._headerRef !== div) {
+            SharedResizeObserver.unobserve(this._headerRef, this._measureHeader);
+        }
+        if (div && div !== this._headerRef) {
+            SharedResizeObserver.observe(div, this._measureHeader);
+        }
+        this._headerRef = div;
+    }
+
+    //Header is measured after every render of the list and whenever it resizes, size is reported only if it changes
+    private _measureHeader(): void {
+        const headerDim = this._headerRef ? { height: this._headerRef.offsetHeight, width: this._headerRef.offsetWidth } : { height: 0, width: 0 };
+        if (headerDim.height !== this._headerDim.height || headerDim.width !== this._headerDim.width) {
+            this._headerDim = headerDim;
+            if (this.props.onHeaderSizeChanged) {
+                this.props.onHeaderSizeChanged(headerDim);
+            }
+        }
+    }
+
+    //Trailing inset is part of the content size, it moves after the footer if there is one
+    private _getFooterInset(): number {
+        return this.props.renderFooter && this.props.trailingInset ? this.props.trailingInset : 0;
+    }
+
     private _onScroll(e: ScrollEvent): void {
         this.props.onScroll(e.nativeEvent.contentOffset.x, e.nativeEvent.contentOffset.y, e);
     }
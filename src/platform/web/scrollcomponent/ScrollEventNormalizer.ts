@@ -3,12 +3,13 @@ import { ScrollEvent } from "../../../core/scrollcomponent/BaseScrollView";
 export class ScrollEventNormalizer {
     public divEvent: ScrollEvent;
     public windowEvent: ScrollEvent;
-    constructor(target: HTMLDivElement, distanceFromWindow: number) {
+    //In RTL mode x offsets are measured from the right edge
+    constructor(target: HTMLDivElement, distanceFromWindow: number, isRTL: boolean = false) {
         this.divEvent = {
             nativeEvent: {
                 contentOffset: {
                     get x(): number {
-                        return target.scrollLeft;
+                        return isRTL ? target.scrollWidth - target.clientWidth - target.scrollLeft : target.scrollLeft;
                     },
                     get y(): number {
                         return target.scrollTop;
@@ -36,7 +37,8 @@ export class ScrollEventNormalizer {
             nativeEvent: {
                 contentOffset: {
                     get x(): number {
-                        return window.scrollX - distanceFromWindow;
+                        return (isRTL ? document.documentElement.scrollWidth - document.documentElement.clientWidth - window.scrollX : window.scrollX) -
+                            distanceFromWindow;
                     },
                     get y(): number {
                         return window.scrollY - distanceFromWindow;
@@ -1,7 +1,9 @@
 import * as React from "react";
+import { Dimension } from "../../../core/dependencies/LayoutProvider";
 import BaseScrollView, { ScrollEvent, ScrollViewDefaultProps } from "../../../core/scrollcomponent/BaseScrollView";
 import debounce from "lodash-es/debounce";
 import { ScrollEventNormalizer } from "./ScrollEventNormalizer";
+import SharedResizeObserver from "../SharedResizeObserver";
 const scrollEndEventSimulator = debounce((executable: () => void) => {
     executable();
 }, 1200);
@@ -9,12 +11,18 @@ const scrollEndEventSimulator = debounce((executable: () => void) => {
 /***
  * A scrollviewer that mimics react native scrollview. Additionally on web it can start listening to window scroll events optionally.
  * Supports both window scroll and scrollable divs inside other divs.
+ * In horizontal RTL mode offsets are measured from the right edge and the right edge stays in place when content grows.
+ * In two dimensional mode both axes scroll, horizontal prop only decides which one is the main axis.
+ * If canChangeSize is set container resizes are tracked using ResizeObserver, the div itself in div mode and document element along with window
+ * resize events in window mode. Without ResizeObserver window resize events are used in both modes.
  */
 export default class ScrollViewer extends BaseScrollView {
     public static defaultProps = {
         canChangeSize: false,
         distanceFromWindow: 0,
         horizontal: false,
+        isRTL: false,
+        isTwoDimensional: false,
         style: null,
         useWindowScroll: false,
     };
@@ -22,6 +30,8 @@ export default class ScrollViewer extends BaseScrollView {
     private _mainDivRef: HTMLDivElement | null = null;
     private _isScrolling: boolean = false;
     private _scrollEventNormalizer: ScrollEventNormalizer | null = null;
+    private _lastScrollWidth: number = 0;
+    private _lastDim: Dimension = { height: 0, width: 0 };
     constructor(args: ScrollViewDefaultProps) {
         super(args);
         this._onScroll = this._onScroll.bind(this);
@@ -32,13 +42,33 @@ export default class ScrollViewer extends BaseScrollView {
         this._isScrollEnd = this._isScrollEnd.bind(this);
         this._trackScrollOccurence = this._trackScrollOccurence.bind(this);
         this._setDivRef = this._setDivRef.bind(this);
+        this._onContainerResize = this._onContainerResize.bind(this);
     }
 
     public componentDidMount(): void {
         if (this.props.onSizeChanged) {
             if (!this.props.useWindowScroll && this._mainDivRef) {
                 this._startListeningToDivEvents();
-                this.props.onSizeChanged({ height: this._mainDivRef.clientHeight, width: this._mainDivRef.clientWidth });
+                this._onContainerResize();
+            }
+        }
+        this._lastScrollWidth = this._getScrollWidth();
+    }
+
+    //Content grows towards the left in horizontal RTL mode, shifting by the growth keeps the distance from the right edge same
+    public componentDidUpdate(): void {
+        if (this._isRTLHorizontal()) {
+            const scrollWidth = this._getScrollWidth();
+            if (scrollWidth !== this._lastScrollWidth) {
+                const growth = scrollWidth - this._lastScrollWidth;
+                this._lastScrollWidth = scrollWidth;
+                if (!this.props.useWindowScroll) {
+                    if (this._mainDivRef) {
+                        this._mainDivRef.scrollLeft += growth;
+                    }
+                } else {
+                    window.scrollBy(growth, 0);
+                }
             }
         }
     }
@@ -47,15 +77,17 @@ export default class ScrollViewer extends BaseScrollView {
         if (this.props.onSizeChanged) {
             if (this.props.useWindowScroll) {
                 this._startListeningToWindowEvents();
-                this.props.onSizeChanged({ height: window.innerHeight, width: window.innerWidth });
+                this._onContainerResize();
             }
         }
     }
 
     public componentWillReceiveProps(nextProps: ScrollViewDefaultProps): void {
-        if (this.props.distanceFromWindow !== nextProps.distanceFromWindow) {
+        if (this.props.distanceFromWindow !== nextProps.distanceFromWindow || this.props.isRTL !== nextProps.isRTL ||
+            this.props.horizontal !== nextProps.horizontal) {
             if (this._mainDivRef) {
-                this._scrollEventNormalizer = new ScrollEventNormalizer(this._mainDivRef, nextProps.distanceFromWindow);
+                this._scrollEventNormalizer = new ScrollEventNormalizer(this._mainDivRef, nextProps.distanceFromWindow,
+                    !!nextProps.isRTL && nextProps.horizontal);
             }
         }
     }
@@ -64,11 +96,17 @@ export default class ScrollViewer extends BaseScrollView {
         window.removeEventListener("scroll", this._windowOnScroll);
         if (this._mainDivRef) {
             this._mainDivRef.removeEventListener("scroll", this._onScroll);
+            SharedResizeObserver.unobserve(this._mainDivRef, this._onContainerResize);
         }
+        SharedResizeObserver.unobserve(document.documentElement, this._onContainerResize);
         window.removeEventListener("resize", this._onWindowResize);
     }
 
+    //Cross axis offset is applied without animation in two dimensional mode
     public scrollTo(scrollInput: { x: number, y: number, animated: boolean }): void {
+        if (this.props.isTwoDimensional) {
+            this._setCrossOffset(this.props.horizontal ? scrollInput.y : scrollInput.x);
+        }
         if (scrollInput.animated) {
             this._doAnimatedScroll(this.props.horizontal ? scrollInput.x : scrollInput.y);
         } else {
@@ -83,8 +121,8 @@ export default class ScrollViewer extends BaseScrollView {
                 style={{
                     WebkitOverflowScrolling: "touch",
                     height: "100%",
-                    overflowX: this.props.horizontal ? "scroll" : "hidden",
-                    overflowY: !this.props.horizontal ? "scroll" : "hidden",
+                    overflowX: this.props.horizontal || this.props.isTwoDimensional ? "scroll" : "hidden",
+                    overflowY: !this.props.horizontal || this.props.isTwoDimensional ? "scroll" : "hidden",
                     width: "100%",
                     ...this.props.style,
                 }}
@@ -103,7 +141,7 @@ export default class ScrollViewer extends BaseScrollView {
     private _setDivRef(div: HTMLDivElement | null): void {
         this._mainDivRef = div;
         if (div) {
-            this._scrollEventNormalizer = new ScrollEventNormalizer(div, this.props.distanceFromWindow);
+            this._scrollEventNormalizer = new ScrollEventNormalizer(div, this.props.distanceFromWindow, this._isRTLHorizontal());
         } else {
             this._scrollEventNormalizer = null;
         }
@@ -113,7 +151,7 @@ export default class ScrollViewer extends BaseScrollView {
         if (!this.props.useWindowScroll) {
             if (this._mainDivRef) {
                 if (this.props.horizontal) {
-                    return this._mainDivRef.scrollLeft;
+                    return this._isRTLHorizontal() ? this._getMaxScrollLeft() - this._mainDivRef.scrollLeft : this._mainDivRef.scrollLeft;
                 } else {
                     return this._mainDivRef.scrollTop;
                 }
@@ -121,7 +159,7 @@ export default class ScrollViewer extends BaseScrollView {
             return 0;
         } else {
             if (this.props.horizontal) {
-                return window.scrollX;
+                return this._isRTLHorizontal() ? this._getMaxScrollLeft() - window.scrollX : window.scrollX;
             } else {
                 return window.scrollY;
             }
@@ -132,20 +170,57 @@ export default class ScrollViewer extends BaseScrollView {
         if (!this.props.useWindowScroll) {
             if (this._mainDivRef) {
                 if (this.props.horizontal) {
-                    this._mainDivRef.scrollLeft = offset;
+                    this._mainDivRef.scrollLeft = this._isRTLHorizontal() ? this._getMaxScrollLeft() - offset : offset;
                 } else {
                     this._mainDivRef.scrollTop = offset;
                 }
             }
         } else {
             if (this.props.horizontal) {
-                window.scrollTo(offset + this.props.distanceFromWindow, 0);
+                window.scrollTo(this._isRTLHorizontal() ? this._getMaxScrollLeft() - offset - this.props.distanceFromWindow :
+                    offset + this.props.distanceFromWindow, this.props.isTwoDimensional ? window.scrollY : 0);
+            } else {
+                window.scrollTo(this.props.isTwoDimensional ? window.scrollX : 0, offset + this.props.distanceFromWindow);
+            }
+        }
+    }
+
+    private _setCrossOffset(offset: number): void {
+        if (!this.props.useWindowScroll) {
+            if (this._mainDivRef) {
+                if (this.props.horizontal) {
+                    this._mainDivRef.scrollTop = offset;
+                } else {
+                    this._mainDivRef.scrollLeft = offset;
+                }
+            }
+        } else {
+            if (this.props.horizontal) {
+                window.scrollTo(window.scrollX, offset + this.props.distanceFromWindow);
             } else {
-                window.scrollTo(0, offset + this.props.distanceFromWindow);
+                window.scrollTo(offset + this.props.distanceFromWindow, window.scrollY);
             }
         }
     }
 
+    private _isRTLHorizontal(): boolean {
+        return !!this.props.isRTL && this.props.horizontal;
+    }
+
+    private _getScrollWidth(): number {
+        if (!this.props.useWindowScroll) {
+            return this._mainDivRef ? this._mainDivRef.scrollWidth : 0;
+        }
+        return document.documentElement.scrollWidth;
+    }
+
+    private _getMaxScrollLeft(): number {
+        if (!this.props.useWindowScroll) {
+            return this._mainDivRef ? this._mainDivRef.scrollWidth - this._mainDivRef.clientWidth : 0;
+        }
+        return document.documentElement.scrollWidth - document.documentElement.clientWidth;
+    }
+
     private _isScrollEnd(): void {
         if (this._mainDivRef) {
             this._mainDivRef.style.pointerEvents = "auto";
@@ -187,19 +262,44 @@ export default class ScrollViewer extends BaseScrollView {
     private _startListeningToDivEvents(): void {
         if (this._mainDivRef) {
             this._mainDivRef.addEventListener("scroll", this._onScroll);
+            if (this.props.canChangeSize) {
+                if (SharedResizeObserver.isSupported()) {
+                    SharedResizeObserver.observe(this._mainDivRef, this._onContainerResize);
+                } else {
+                    window.addEventListener("resize", this._onWindowResize);
+                }
+            }
         }
     }
 
+    //Document element resizes on width changes e.g, scrollbar appearing, which don't always come with a resize event. It also resizes whenever
+    //content grows which is wasted work, such callbacks are dropped in _onContainerResize since window size stays the same. Nothing else in the
+    //page is guaranteed to resize only with the viewport.
     private _startListeningToWindowEvents(): void {
         window.addEventListener("scroll", this._windowOnScroll);
         if (this.props.canChangeSize) {
             window.addEventListener("resize", this._onWindowResize);
+            SharedResizeObserver.observe(document.documentElement, this._onContainerResize);
         }
     }
 
     private _onWindowResize(): void {
-        if (this.props.onSizeChanged && this.props.useWindowScroll) {
-            this.props.onSizeChanged({ height: window.innerHeight, width: window.innerWidth });
+        this._onContainerResize();
+    }
+
+    //Size is reported only if it actually changed
+    private _onContainerResize(): void {
+        if (this.props.onSizeChanged) {
+            let dim: Dimension | null = null;
+            if (this.props.useWindowScroll) {
+                dim = { height: window.innerHeight, width: window.innerWidth };
+            } else if (this._mainDivRef) {
+                dim = { height: this._mainDivRef.clientHeight, width: this._mainDivRef.clientWidth };
+            }
+            if (dim && (dim.height !== this._lastDim.height || dim.width !== this._lastDim.width)) {
+                this._lastDim = dim;
+                this.props.onSizeChanged(dim);
+            }
         }
     }
 
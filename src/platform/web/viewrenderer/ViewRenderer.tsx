@@ -2,12 +2,15 @@ import * as React from "react";
 import { CSSProperties } from "react";
 import { Dimension } from "../../../core/dependencies/LayoutProvider";
 import BaseViewRenderer, { ViewRendererProps } from "../../../core/viewrenderer/BaseViewRenderer";
+import SharedResizeObserver from "../SharedResizeObserver";
 
 /***
  * View renderer is responsible for creating a container of size provided by LayoutProvider and render content inside it.
  * Also enforces a logic to prevent re renders. RecyclerListView keeps moving these ViewRendereres around using transforms to enable recycling.
  * View renderer will only update if its position, dimensions or given data changes. Make sure to have a relevant shouldComponentUpdate as well.
  * This is second of the two things recycler works on. Implemented both for web and react native.
+ * In non deterministic mode cells are observed using ResizeObserver so that late size changes (images loading, text expanding) are reported too.
+ * Without ResizeObserver size is only checked after mount and updates.
  */
 export default class ViewRenderer extends BaseViewRenderer<any> {
     private _dim: Dimension = { width: 0, height: 0 };
@@ -16,6 +19,7 @@ export default class ViewRenderer extends BaseViewRenderer<any> {
     constructor(props: ViewRendererProps<any>) {
         super(props);
         this._setRef = this._setRef.bind(this);
+        this._checkSizeChange = this._checkSizeChange.bind(this);
     }
 
     public componentDidMount(): void {
@@ -29,6 +33,15 @@ export default class ViewRenderer extends BaseViewRenderer<any> {
         this._checkSizeChange();
     }
 
+    public componentWillUnmount(): void {
+        if (super.componentWillUnmount) {
+            super.componentWillUnmount();
+        }
+        if (this._mainDiv) {
+            SharedResizeObserver.unobserve(this._mainDiv, this._checkSizeChange);
+        }
+    }
+
     public render(): JSX.Element {
         const styleObj: CSSProperties = this.props.forceNonDeterministicRendering
             ? {
@@ -63,7 +76,13 @@ export default class ViewRenderer extends BaseViewRenderer<any> {
         return this._mainDiv;
     }
     private _setRef(div: HTMLDivElement | null): void {
+        if (this._mainDiv && this._mainDiv !== div) {
+            SharedResizeObserver.unobserve(this._mainDiv, this._checkSizeChange);
+        }
         this._mainDiv = div;
+        if (div && this.props.forceNonDeterministicRendering) {
+            SharedResizeObserver.observe(div, this._checkSizeChange);
+        }
     }
     private _getTransform(): string {
         return "translate(" + this.props.x + "px," + this.props.y + "px)";
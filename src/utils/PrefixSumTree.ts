@@ -0,0 +1,163 @@
+/***
+ * Sequence of numbers which supports insertion and removal at any position, value updates and prefix sums in O(log n) (expected). Implemented as an
+ * implicit randomized binary search tree where every node keeps the size and sum of its subtree. Nodes are handed out on insert and keep working as
+ * handles, prefix sum of a node can be read even after items before it are inserted or removed.
+ */
+export interface PrefixSumNode {
+    value: number;
+    sum: number;
+    size: number;
+    left: PrefixSumNode | null;
+    right: PrefixSumNode | null;
+    parent: PrefixSumNode | null;
+}
+
+export default class PrefixSumTree {
+    private _root: PrefixSumNode | null = null;
+
+    public getSize(): number {
+        return this._getSize(this._root);
+    }
+
+    public getTotal(): number {
+        return this._getSum(this._root);
+    }
+
+    //Inserts values before given index and returns nodes created for them
+    public insert(index: number, values: number[]): PrefixSumNode[] {
+        const nodes: PrefixSumNode[] = [];
+        const count = values.length;
+        for (let i = 0; i < count; i++) {
+            nodes.push({ value: values[i], sum: values[i], size: 1, left: null, right: null, parent: null });
+        }
+        const parts = this._split(this._root, index);
+        this._setRoot(this._merge(this._merge(parts[0], this._build(nodes, 0, count - 1)), parts[1]));
+        return nodes;
+    }
+
+    public remove(index: number, count: number): void {
+        const parts = this._split(this._root, index);
+        const removedParts = this._split(parts[1], count);
+        const removedRoot = removedParts[0];
+        if (removedRoot) {
+            removedRoot.parent = null;
+        }
+        this._setRoot(this._merge(parts[0], removedParts[1]));
+    }
+
+    public setValue(node: PrefixSumNode, value: number): void {
+        node.value = value;
+        for (let current: PrefixSumNode | null = node; current; current = current.parent) {
+            this._update(current);
+        }
+    }
+
+    //Sum of all values before the node
+    public getSumBefore(node: PrefixSumNode): number {
+        let sum = this._getSum(node.left);
+        for (let current = node; current.parent; current = current.parent) {
+            if (current === current.parent.right) {
+                sum += this._getSum(current.parent.left) + current.parent.value;
+            }
+        }
+        return sum;
+    }
+
+    //Index of the item which contains the offset i.e, first index where sum of values till (and including) it is greater than offset.
+    //Returns size if offset is beyond total.
+    public findIndexForOffset(offset: number): number {
+        let index = 0;
+        let current = this._root;
+        let leftSum = 0;
+        while (current) {
+            leftSum = this._getSum(current.left);
+            if (offset < leftSum) {
+                current = current.left;
+            } else if (offset < leftSum + current.value) {
+                return index + this._getSize(current.left);
+            } else {
+                offset -= leftSum + current.value;
+                index += this._getSize(current.left) + 1;
+                current = current.right;
+            }
+        }
+        return index;
+    }
+
+    private _setRoot(root: PrefixSumNode | null): void {
+        this._root = root;
+        if (root) {
+            root.parent = null;
+        }
+    }
+
+    //Balanced build, keeps initial depth at log n
+    private _build(nodes: PrefixSumNode[], low: number, high: number): PrefixSumNode | null {
+        if (low > high) {
+            return null;
+        }
+        const mid = Math.floor((low + high) / 2);
+        const node = nodes[mid];
+        node.left = this._build(nodes, low, mid - 1);
+        node.right = this._build(nodes, mid + 1, high);
+        this._update(node);
+        return node;
+    }
+
+    //Splits into first count items and the rest, returned roots may have stale parent pointers until attached
+    private _split(node: PrefixSumNode | null, count: number): Array<PrefixSumNode | null> {
+        if (!node) {
+            return [null, null];
+        }
+        let parts: Array<PrefixSumNode | null>;
+        if (this._getSize(node.left) >= count) {
+            parts = this._split(node.left, count);
+            node.left = parts[1];
+            this._update(node);
+            return [parts[0], node];
+        } else {
+            parts = this._split(node.right, count - this._getSize(node.left) - 1);
+            node.right = parts[0];
+            this._update(node);
+            return [node, parts[1]];
+        }
+    }
+
+    //Root is picked with probability proportional to subtree size, this keeps expected depth logarithmic without storing priorities
+    private _merge(first: PrefixSumNode | null, second: PrefixSumNode | null): PrefixSumNode | null {
+        if (!first) {
+            return second;
+        }
+        if (!second) {
+            return first;
+        }
+        if (Math.random() * (first.size + second.size) < first.size) {
+            first.right = this._merge(first.right, second);
+            this._update(first);
+            return first;
+        } else {
+            second.left = this._merge(first, second.left);
+            this._update(second);
+            return second;
+        }
+    }
+
+    private _update(node: PrefixSumNode): void {
+        node.size = 1 + this._getSize(node.left) + this._getSize(node.right);
+        node.sum = node.value + this._getSum(node.left) + this._getSum(node.right);
+        if (node.left) {
+            node.left.parent = node;
+        }
+        if (node.right) {
+            node.right.parent = node;
+        }
+    }
+
+    private _getSize(node: PrefixSumNode | null): number {
+        return node ? node.size : 0;
+    }
+
+    private _getSum(node: PrefixSumNode | null): number {
+        return node ? node.sum : 0;
+    }
+}